@@ -19,7 +19,8 @@ const read = FileSystem.FileSystem.pipe(
     name: json.name,
     version: json.version,
     description: json.description,
-    main: "bin.js",
+    main: "index.js",
+    types: "index.d.ts",
     bin: "bin.js",
     engines: json.engines,
     dependencies: excludeEffectPackages(json.dependencies),
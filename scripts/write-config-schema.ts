@@ -0,0 +1,18 @@
+import { Effect } from "effect"
+import * as path from "node:path"
+import { ConfigJsonSchema } from "../src/Config"
+import * as FileSystem from "../src/FileSystem"
+
+const pathTo = path.join("dist", "schema.json")
+
+const write = Effect.flatMap(
+  FileSystem.FileSystem,
+  (fileSystem) => fileSystem.writeFile(pathTo, JSON.stringify(ConfigJsonSchema, null, 2))
+)
+
+const program = Effect.sync(() => console.log(`writing configuration schema to ${pathTo}...`)).pipe(
+  Effect.zipRight(write),
+  Effect.provideLayer(FileSystem.FileSystemLive)
+)
+
+Effect.runPromise(program)
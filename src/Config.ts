@@ -1,16 +1,34 @@
 /**
  * @since 1.0.0
  */
+import type * as AST from "@effect/schema/AST"
 import * as Schema from "@effect/schema/Schema"
 import * as TreeFormatter from "@effect/schema/TreeFormatter"
 import chalk from "chalk"
-import { Context, Data, Effect, Layer, Option } from "effect"
+import {
+  Context,
+  Data,
+  Effect,
+  Layer,
+  LoggerLevel,
+  Number,
+  Option,
+  Order,
+  pipe,
+  ReadonlyArray,
+  ReadonlyRecord
+} from "effect"
+import { createRequire } from "node:module"
 import * as NodePath from "node:path"
+import * as NodeUrl from "node:url"
+import { ts } from "ts-morph"
 import * as FileSystem from "./FileSystem"
 import * as Process from "./Process"
 
 const PACKAGE_JSON_FILE_NAME = "package.json"
-const CONFIG_FILE_NAME = "docgen.json"
+const CONFIG_FILE_NAMES = ["docgen.config.ts", "docgen.config.mjs", "docgen.json"]
+// the configuration presets may also be CommonJS modules
+const CONFIG_FILE_EXTENSIONS = [".json", ".ts", ".mjs", ".cjs", ".js"]
 
 /**
  * @category model
@@ -26,9 +44,53 @@ export interface Config {
   readonly enforceDescriptions: boolean
   readonly enforceExamples: boolean
   readonly enforceVersion: boolean
+  readonly runExamples: boolean
+  readonly logLevel: LoggerLevel.Literal
   readonly exclude: ReadonlyArray<string>
+  /**
+   * The `tsconfig.json` file set explicitly, if any, otherwise the nearest
+   * `tsconfig.json` file is looked up.
+   */
+  readonly tsConfigFilePath: Option.Option<string>
   readonly parseCompilerOptions: Record<string, unknown>
   readonly examplesCompilerOptions: Record<string, unknown>
+  readonly workspace: boolean
+  readonly overrides: ReadonlyArray<EnforcementOverride>
+  readonly useExports: boolean
+  readonly useDeclarationEmit: boolean
+  readonly emitJsonSchemas: boolean
+}
+
+/**
+ * Enforcement settings which apply to the source files matching the `files`
+ * glob pattern (relative to the project root), e.g. to require examples for
+ * the stable modules only.
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface EnforcementOverride {
+  readonly files: string
+  readonly enforceDescriptions?: boolean
+  readonly enforceExamples?: boolean
+  readonly enforceVersion?: boolean
+}
+
+/**
+ * The settings that can be specified in a configuration file. Every setting is
+ * optional and falls back to its default value.
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface ConfigFile extends Partial<Omit<Config, "projectName" | "tsConfigFilePath">> {
+  readonly tsConfigFilePath?: string
+  /**
+   * A configuration file (relative to the extending file) or a package
+   * exporting a configuration preset, whose settings are merged recursively
+   * with the ones of the extending file.
+   */
+  readonly extends?: string
 }
 
 /**
@@ -52,6 +114,21 @@ export const ConfigError = Data.tagged<ConfigError>("ConfigError")
  */
 export const Config = Context.Tag<Config>()
 
+// a `tsConfigFilePath` set explicitly is told apart from the default lookup
+const TsConfigFilePathSchema = Schema.transform(
+  Schema.string,
+  Schema.optionFromSelf(Schema.string),
+  Option.some,
+  Option.getOrElse(() => "tsconfig.json")
+)
+
+const EnforcementOverrideSchema = Schema.struct({
+  files: Schema.string,
+  enforceDescriptions: Schema.optional(Schema.boolean),
+  enforceExamples: Schema.optional(Schema.boolean),
+  enforceVersion: Schema.optional(Schema.boolean)
+})
+
 const ConfigSchema = Schema.struct({
   projectHomepage: Schema.string,
   srcDir: Schema.string,
@@ -61,30 +138,219 @@ const ConfigSchema = Schema.struct({
   enforceDescriptions: Schema.boolean,
   enforceExamples: Schema.boolean,
   enforceVersion: Schema.boolean,
+  runExamples: Schema.boolean,
+  logLevel: Schema.literal(...LoggerLevel.allLevels.map((level) => level._tag)),
   exclude: Schema.array(Schema.string),
+  tsConfigFilePath: TsConfigFilePathSchema,
   parseCompilerOptions: Schema.record(Schema.string, Schema.unknown),
-  examplesCompilerOptions: Schema.record(Schema.string, Schema.unknown)
+  examplesCompilerOptions: Schema.record(Schema.string, Schema.unknown),
+  workspace: Schema.boolean,
+  overrides: Schema.array(EnforcementOverrideSchema),
+  useExports: Schema.boolean,
+  useDeclarationEmit: Schema.boolean,
+  emitJsonSchemas: Schema.boolean
 })
 
 const PartialConfigSchema = Schema.partial(ConfigSchema)
 
+const ConfigFileSchema = Schema.extend(
+  PartialConfigSchema,
+  Schema.struct({
+    $schema: Schema.optional(Schema.string),
+    extends: Schema.optional(Schema.string)
+  })
+)
+
+const isRecord = (u: unknown): u is Record<string, unknown> =>
+  typeof u === "object" && u !== null && !Array.isArray(u)
+
+const toJsonSchema = (ast: AST.AST): Record<string, unknown> => {
+  switch (ast._tag) {
+    case "StringKeyword":
+      return { type: "string" }
+    case "NumberKeyword":
+      return { type: "number" }
+    case "BooleanKeyword":
+      return { type: "boolean" }
+    case "UnknownKeyword":
+    case "AnyKeyword":
+      return {}
+    case "Literal":
+      return { const: ast.literal }
+    case "Union": {
+      const literals = ast.types.filter((type): type is AST.Literal => type._tag === "Literal")
+      return literals.length === ast.types.length
+        ? { enum: literals.map((type) => type.literal) }
+        : { anyOf: ast.types.map(toJsonSchema) }
+    }
+    case "Tuple":
+      return Option.match(ast.rest, {
+        onNone: () => ({ type: "array", items: ast.elements.map((e) => toJsonSchema(e.type)) }),
+        onSome: (rest) => ({ type: "array", items: toJsonSchema(rest[0]) })
+      })
+    case "Transform":
+      return toJsonSchema(ast.from)
+    case "TypeLiteral": {
+      const required = ast.propertySignatures.filter((ps) => !ps.isOptional)
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          ast.propertySignatures.map((ps) => [String(ps.name), toJsonSchema(ps.type)])
+        ),
+        ...(required.length > 0 ? { required: required.map((ps) => String(ps.name)) } : {}),
+        additionalProperties: ast.indexSignatures.length > 0
+          ? toJsonSchema(ast.indexSignatures[0].type)
+          : false
+      }
+    }
+  }
+  throw new Error(`Unsupported schema in JSON Schema conversion: ${ast._tag}`)
+}
+
+/**
+ * The JSON Schema of the configuration files, which can be referenced by the
+ * `$schema` key of a `docgen.json` file to enable validation and completion
+ * in editors:
+ *
+ * ```json
+ * {
+ *   "$schema": "./node_modules/@effect/docgen/schema.json"
+ * }
+ * ```
+ *
+ * @category config
+ * @since 1.0.0
+ */
+export const ConfigJsonSchema: Record<string, unknown> = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "docgen configuration",
+  ...toJsonSchema(ConfigFileSchema.ast)
+}
+
+const getKeys = (ast: AST.AST): ReadonlyArray<string> =>
+  ast._tag === "TypeLiteral" ? ast.propertySignatures.map((ps) => String(ps.name)) : []
+
+const CONFIG_FILE_KEYS = getKeys(ConfigFileSchema.ast)
+
+const ENFORCEMENT_OVERRIDE_KEYS = getKeys(EnforcementOverrideSchema.ast)
+
+const getEditDistance = (a: string, b: string): number => {
+  const distances = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let previous = distances[0]
+    distances[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = distances[j]
+      distances[j] = Math.min(
+        distances[j] + 1,
+        distances[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      previous = current
+    }
+  }
+  return distances[b.length]
+}
+
+const getClosestKey = (key: string, keys: ReadonlyArray<string>): Option.Option<string> =>
+  pipe(
+    keys,
+    ReadonlyArray.map((candidate) =>
+      [candidate, getEditDistance(key.toLowerCase(), candidate.toLowerCase())] as const
+    ),
+    ReadonlyArray.filter(([, distance]) => distance <= Math.max(2, Math.floor(key.length / 3))),
+    ReadonlyArray.sort(
+      Order.mapInput(Number.Order, ([, distance]: readonly [string, number]) => distance)
+    ),
+    ReadonlyArray.head,
+    Option.map(([candidate]) => candidate)
+  )
+
+/**
+ * Finds the valid configuration key closest to an unknown one, if any is
+ * close enough to be a likely typo.
+ *
+ * @internal
+ */
+export const getKeySuggestion = (key: string): Option.Option<string> =>
+  getClosestKey(key, CONFIG_FILE_KEYS)
+
+const getUnknownKeyMessages = (
+  content: unknown,
+  keys: ReadonlyArray<string>,
+  location: string
+): ReadonlyArray<string> =>
+  // the schema reports any content which is not an object
+  isRecord(content)
+    ? Object.keys(content).filter((key) => !keys.includes(key)).map((key) =>
+      `Unknown configuration key '${key}' in ${location}` + Option.match(getClosestKey(key, keys), {
+        onNone: () => "",
+        onSome: (suggestion) => `, did you mean '${suggestion}'?`
+      })
+    )
+    : []
+
+// the keys of the entries of `overrides` are checked as well
+const validateKeys = (
+  path: string,
+  content: unknown
+): Effect.Effect<never, ConfigError, unknown> => {
+  const overrides = isRecord(content) && Array.isArray(content.overrides) ? content.overrides : []
+  const messages = [
+    ...getUnknownKeyMessages(content, CONFIG_FILE_KEYS, `'${path}'`),
+    ...overrides.flatMap((override, i) =>
+      getUnknownKeyMessages(override, ENFORCEMENT_OVERRIDE_KEYS, `'${path}' (overrides[${i}])`)
+    )
+  ]
+  return messages.length === 0
+    ? Effect.succeed(content)
+    : Effect.fail(ConfigError({ message: messages.join("\n") }))
+}
+
+/**
+ * Provides type checking and editor completion for the settings exported by a
+ * `docgen.config.ts` (or `docgen.config.mjs`) file.
+ *
+ * @example
+ * import { defineConfig } from "@effect/docgen"
+ *
+ * export default defineConfig({
+ *   exclude: ["src/internal/**"],
+ *   enforceDescriptions: true
+ * })
+ *
+ * @category constructors
+ * @since 1.0.0
+ */
+export const defineConfig = (config: ConfigFile): ConfigFile => config
+
 const PackageJsonSchema = Schema.struct({
   name: Schema.string,
   homepage: Schema.string
 })
 
-const parseJsonFile = <I, A>(
+// the packages of a workspace may leave the homepage to the root package
+const WorkspacePackageJsonSchema = Schema.struct({
+  name: Schema.string,
+  homepage: Schema.optional(Schema.string)
+})
+
+/** @internal */
+export const parse = <I, A>(
+  schema: Schema.Schema<I, A>,
+  content: unknown
+): Effect.Effect<never, ConfigError, A> =>
+  Schema.parse(schema)(content).pipe(
+    Effect.mapError((e) => ConfigError({ message: TreeFormatter.formatErrors(e.errors) }))
+  )
+
+/** @internal */
+export const parseJsonFile = <I, A>(
   schema: Schema.Schema<I, A>,
   path: string,
   fileSystem: FileSystem.FileSystem
 ): Effect.Effect<never, ConfigError | FileSystem.ReadFileError | FileSystem.ParseJsonError, A> =>
-  fileSystem.readJsonFile(path).pipe(
-    Effect.flatMap((content) =>
-      Schema.parse(schema)(content).pipe(
-        Effect.mapError((e) => ConfigError({ message: TreeFormatter.formatErrors(e.errors) }))
-      )
-    )
-  )
+  fileSystem.readJsonFile(path).pipe(Effect.flatMap((content) => parse(schema, content)))
 
 const getDefaultConfig = (projectName: string, projectHomepage: string): Config => ({
   projectName,
@@ -96,32 +362,386 @@ const getDefaultConfig = (projectName: string, projectHomepage: string): Config
   enforceDescriptions: false,
   enforceExamples: false,
   enforceVersion: true,
+  runExamples: true,
+  logLevel: "Debug",
   exclude: [],
+  tsConfigFilePath: Option.none(),
   parseCompilerOptions: {},
-  examplesCompilerOptions: {}
+  examplesCompilerOptions: {},
+  workspace: false,
+  overrides: [],
+  useExports: false,
+  useDeclarationEmit: false,
+  emitJsonSchemas: false
 })
 
-const loadConfig = (
+const getConfigModuleError = (path: string, error: unknown): ConfigError =>
+  ConfigError({
+    message: `Unable to load configuration file '${path}': ${
+      error instanceof Error ? error.message : String(error)
+    }`
+  })
+
+const getDefaultExport = (exports: unknown): unknown =>
+  isRecord(exports) && "default" in exports ? exports.default : exports
+
+const evaluateCommonJsModule = (path: string, code: string): unknown => {
+  const module = { exports: {} }
+  const evaluate = new Function("exports", "require", "module", "__filename", "__dirname", code)
+  evaluate(module.exports, createRequire(path), module, path, NodePath.dirname(path))
+  return module.exports
+}
+
+/**
+ * Reads the raw contents of a configuration file: `.ts` files are transpiled
+ * and evaluated, `.mjs` files are imported, `.js` and `.cjs` files are
+ * required (as CommonJS modules) and `.json` files are parsed. For modules,
+ * the default export (if any) is returned.
+ *
+ * @internal
+ */
+export const readConfigFile = (
+  path: string
+): Effect.Effect<
+  FileSystem.FileSystem,
+  ConfigError | FileSystem.ReadFileError | FileSystem.ParseJsonError,
+  unknown
+> =>
+  Effect.flatMap(FileSystem.FileSystem, (
+    fileSystem
+  ): Effect.Effect<
+    never,
+    ConfigError | FileSystem.ReadFileError | FileSystem.ParseJsonError,
+    unknown
+  > => {
+    switch (NodePath.extname(path)) {
+      case ".ts":
+        return Effect.flatMap(fileSystem.readFile(path), (content) =>
+          Effect.try({
+            try: () => {
+              const { outputText } = ts.transpileModule(content, {
+                fileName: path,
+                compilerOptions: {
+                  module: ts.ModuleKind.CommonJS,
+                  target: ts.ScriptTarget.ES2021,
+                  esModuleInterop: true
+                }
+              })
+              return getDefaultExport(evaluateCommonJsModule(path, outputText))
+            },
+            catch: (error) => getConfigModuleError(path, error)
+          }))
+      case ".mjs":
+        return Effect.tryPromise({
+          try: () => import(NodeUrl.pathToFileURL(path).href).then(getDefaultExport),
+          catch: (error) => getConfigModuleError(path, error)
+        })
+      case ".js":
+      case ".cjs":
+        return Effect.try({
+          try: () => getDefaultExport(createRequire(path)(path)),
+          catch: (error) => getConfigModuleError(path, error)
+        })
+      case ".json":
+        return fileSystem.readJsonFile(path)
+      default:
+        return Effect.fail(
+          ConfigError({
+            message: `Unsupported configuration file '${path}', expected one of: ${
+              CONFIG_FILE_EXTENSIONS.join(", ")
+            }`
+          })
+        )
+    }
+  })
+
+/**
+ * Recursively merges the settings of a configuration file into the ones of
+ * the preset it extends: nested objects are merged, while any other value of
+ * the configuration file replaces the one of the preset.
+ *
+ * @internal
+ */
+export const mergeConfigFiles = (
+  preset: Record<string, unknown>,
+  config: Record<string, unknown>
+): Record<string, unknown> =>
+  Object.entries(config).reduce<Record<string, unknown>>((out, [key, value]) => {
+    const presetValue = out[key]
+    return {
+      ...out,
+      [key]: isRecord(presetValue) && isRecord(value)
+        ? mergeConfigFiles(presetValue, value)
+        : value
+    }
+  }, preset)
+
+const resolvePresetPath = (
   path: string,
-  fileSystem: FileSystem.FileSystem
+  specifier: string
+): Effect.Effect<FileSystem.FileSystem, ConfigError | FileSystem.ReadFileError, string> => {
+  const notFound = ConfigError({
+    message: `Unable to find configuration preset '${specifier}' extended by '${path}'`
+  })
+  // relative and absolute paths point to a file, anything else to a package
+  if (specifier.startsWith(".") || NodePath.isAbsolute(specifier)) {
+    const presetPath = NodePath.resolve(NodePath.dirname(path), specifier)
+    return Effect.flatMap(
+      FileSystem.FileSystem,
+      (fileSystem) =>
+        Effect.if(fileSystem.pathExists(presetPath), {
+          onTrue: Effect.succeed(presetPath),
+          onFalse: Effect.fail(notFound)
+        })
+    )
+  }
+  return Effect.try({
+    try: () => createRequire(path).resolve(specifier),
+    catch: () => notFound
+  })
+}
+
+const resolveExtends = (
+  path: string,
+  chain: ReadonlyArray<string>
 ): Effect.Effect<
-  never,
+  FileSystem.FileSystem,
   ConfigError | FileSystem.ReadFileError | FileSystem.ParseJsonError,
-  Option.Option<Schema.To<typeof PartialConfigSchema>>
+  Record<string, unknown>
 > =>
-  Effect.if(fileSystem.pathExists(path), {
-    onTrue: Effect.logInfo(chalk.bold("Configuration file found")).pipe(
-      Effect.zipRight(parseJsonFile(PartialConfigSchema, path, fileSystem)),
-      Effect.asSome
-    ),
-    onFalse: Effect.as(
-      Effect.logInfo(
-        chalk.bold("No configuration file detected, using default configuration")
-      ),
-      Option.none()
+  readConfigFile(path).pipe(
+    Effect.flatMap((content) => validateKeys(path, content)),
+    // the settings are decoded once merged
+    Effect.flatMap((content) => parse(Schema.from(ConfigFileSchema), content)),
+    Effect.flatMap(({ $schema: _, extends: specifier, ...config }) =>
+      specifier === undefined
+        ? Effect.succeed(config)
+        : resolvePresetPath(path, specifier).pipe(
+          Effect.flatMap((presetPath) =>
+            chain.includes(presetPath)
+              ? Effect.fail(
+                ConfigError({
+                  message: `Circular configuration presets: ${[...chain, presetPath].join(" -> ")}`
+                })
+              )
+              : Effect.logDebug(`Extending configuration preset: ${presetPath}`).pipe(
+                Effect.zipRight(resolveExtends(presetPath, [...chain, presetPath]))
+              )
+          ),
+          Effect.map((preset) => mergeConfigFiles(preset, config))
+        )
     )
+  )
+
+/**
+ * Reads a configuration file along with the chain of presets it `extends`,
+ * and returns the merged settings.
+ *
+ * @internal
+ */
+export const resolveConfigFile = (
+  path: string
+): Effect.Effect<
+  FileSystem.FileSystem,
+  ConfigError | FileSystem.ReadFileError | FileSystem.ParseJsonError,
+  Schema.To<typeof PartialConfigSchema>
+> =>
+  resolveExtends(path, [path]).pipe(
+    Effect.flatMap((content) => parse(PartialConfigSchema, content))
+  )
+
+const loadConfigFile = (
+  path: string
+): Effect.Effect<
+  FileSystem.FileSystem,
+  ConfigError | FileSystem.ReadFileError | FileSystem.ParseJsonError,
+  Schema.To<typeof PartialConfigSchema>
+> =>
+  Effect.logInfo(chalk.bold(`Configuration file found: ${NodePath.basename(path)}`)).pipe(
+    Effect.zipRight(resolveConfigFile(path))
+  )
+
+const loadConfig = (
+  cwd: string,
+  configPath: Option.Option<string>
+): Effect.Effect<
+  FileSystem.FileSystem,
+  ConfigError | FileSystem.ReadFileError | FileSystem.ParseJsonError,
+  Option.Option<Schema.To<typeof PartialConfigSchema>>
+> =>
+  Effect.flatMap(FileSystem.FileSystem, (fileSystem) =>
+    Option.match(configPath, {
+      // an explicitly provided configuration file must exist
+      onSome: (configPath) => {
+        const path = NodePath.resolve(cwd, configPath)
+        return Effect.if(fileSystem.pathExists(path), {
+          onTrue: Effect.asSome(loadConfigFile(path)),
+          onFalse: Effect.fail(
+            ConfigError({ message: `Unable to find configuration file: '${path}'` })
+          )
+        })
+      },
+      // otherwise the first configuration file found wins
+      onNone: () =>
+        pipe(
+          CONFIG_FILE_NAMES.map((fileName) => NodePath.join(cwd, fileName)),
+          Effect.findFirst((path) => fileSystem.pathExists(path)),
+          Effect.flatMap(Option.match({
+            onNone: () =>
+              Effect.as(
+                Effect.logInfo(
+                  chalk.bold("No configuration file detected, using default configuration")
+                ),
+                Option.none()
+              ),
+            onSome: (path) => Effect.asSome(loadConfigFile(path))
+          }))
+        )
+    }))
+
+/**
+ * Resolves the configuration of a package of a workspace: the configuration
+ * file found in the package directory, if any, is merged into the
+ * configuration of the workspace, and the command-line overrides are applied
+ * last, as they are to the configuration of the workspace. The `--config`
+ * option only selects the configuration file of the workspace.
+ *
+ * The project name and homepage are the ones of the `package.json` file of the
+ * package, falling back to the homepage of the workspace.
+ *
+ * @internal
+ */
+export const resolvePackageConfig = (
+  config: Config,
+  cwd: string
+): Effect.Effect<
+  FileSystem.FileSystem | Process.Process,
+  ConfigError | FileSystem.ReadFileError | FileSystem.ParseJsonError,
+  Config
+> =>
+  Effect.gen(function*($) {
+    const process = yield* $(Process.Process)
+    const fileSystem = yield* $(FileSystem.FileSystem)
+    const packageJson = yield* $(parseJsonFile(
+      WorkspacePackageJsonSchema,
+      NodePath.join(cwd, PACKAGE_JSON_FILE_NAME),
+      fileSystem
+    ))
+    const argv = yield* $(process.argv)
+    const args = yield* $(parseCommandLineArgs(argv))
+    const overrides = yield* $(parse(PartialConfigSchema, args.overrides))
+    const packageConfig = yield* $(loadConfig(cwd, Option.none()))
+    const project = {
+      projectName: packageJson.name,
+      projectHomepage: packageJson.homepage ?? config.projectHomepage
+    }
+    return Option.match(packageConfig, {
+      onNone: () => ({ ...config, ...project, ...overrides }),
+      onSome: (packageConfig) => ({ ...config, ...project, ...packageConfig, ...overrides })
+    })
   })
 
+// -------------------------------------------------------------------------------------
+// command line
+// -------------------------------------------------------------------------------------
+
+/**
+ * The result of parsing the command-line arguments: the path to an alternative
+ * configuration file (if any) and the raw configuration overrides, which are
+ * validated against the same schema as the configuration file.
+ *
+ * @internal
+ */
+export interface CommandLineArgs {
+  readonly configPath: Option.Option<string>
+  readonly overrides: Record<string, unknown>
+}
+
+const getLogLevelLiteral = (value: string): string =>
+  pipe(
+    LoggerLevel.allLevels,
+    ReadonlyArray.findFirst((level) => level._tag.toLowerCase() === value.toLowerCase()),
+    Option.match({
+      onNone: () => value,
+      onSome: (level) => level._tag
+    })
+  )
+
+const withOverride = (args: CommandLineArgs, key: string, value: unknown): CommandLineArgs => ({
+  ...args,
+  overrides: { ...args.overrides, [key]: value }
+})
+
+const commandLineFlags: ReadonlyRecord.ReadonlyRecord<
+  (args: CommandLineArgs) => CommandLineArgs
+> = {
+  "--no-examples": (args) => withOverride(args, "runExamples", false),
+  "--workspace": (args) => withOverride(args, "workspace", true)
+}
+
+const commandLineOptions: ReadonlyRecord.ReadonlyRecord<
+  (args: CommandLineArgs, value: string) => CommandLineArgs
+> = {
+  "--config": (args, value) => ({ ...args, configPath: Option.some(value) }),
+  "--src-dir": (args, value) => withOverride(args, "srcDir", value),
+  "--out-dir": (args, value) => withOverride(args, "outDir", value),
+  "--exclude": (args, value) => {
+    const exclude = args.overrides.exclude
+    return withOverride(args, "exclude", [...(Array.isArray(exclude) ? exclude : []), value])
+  },
+  "--log-level": (args, value) => withOverride(args, "logLevel", getLogLevelLiteral(value))
+}
+
+/**
+ * Parses command-line arguments such as:
+ *
+ * ```sh
+ * docgen --src-dir lib --exclude "lib/internal/**" --no-examples --log-level info
+ * ```
+ *
+ * Options accept their value either as the next argument or inline
+ * (`--out-dir=site`), and `--exclude` may be repeated.
+ *
+ * @internal
+ */
+export const parseCommandLineArgs = (
+  argv: ReadonlyArray<string>
+): Effect.Effect<never, ConfigError, CommandLineArgs> => {
+  const go = (
+    rest: ReadonlyArray<string>,
+    args: CommandLineArgs
+  ): Effect.Effect<never, ConfigError, CommandLineArgs> =>
+    ReadonlyArray.matchLeft(rest, {
+      onEmpty: () => Effect.succeed(args),
+      onNonEmpty: (arg, tail) => {
+        const index = arg.indexOf("=")
+        const name = index === -1 ? arg : arg.slice(0, index)
+        const flag = ReadonlyRecord.get(commandLineFlags, name)
+        if (Option.isSome(flag) && index === -1) {
+          return go(tail, flag.value(args))
+        }
+        return Option.match(ReadonlyRecord.get(commandLineOptions, name), {
+          onNone: () =>
+            Effect.fail(ConfigError({ message: `Unknown command-line option '${arg}'` })),
+          onSome: (option) => {
+            if (index !== -1) {
+              return go(tail, option(args, arg.slice(index + 1)))
+            }
+            const missingValue = Effect.fail(
+              ConfigError({ message: `Missing value for command-line option '${name}'` })
+            )
+            return ReadonlyArray.matchLeft(tail, {
+              onEmpty: () => missingValue,
+              onNonEmpty: (value, tail) =>
+                value.startsWith("--") ? missingValue : go(tail, option(args, value))
+            })
+          }
+        })
+      }
+    })
+  return go(argv, { configPath: Option.none(), overrides: {} })
+}
+
 /**
  * @category service
  * @since 1.0.0
@@ -138,15 +758,23 @@ export const ConfigLive = Layer.effect(
     const packageJsonPath = NodePath.join(cwd, PACKAGE_JSON_FILE_NAME)
     const packageJson = yield* $(parseJsonFile(PackageJsonSchema, packageJsonPath, fileSystem))
 
+    // Parse the command-line arguments
+    const argv = yield* $(process.argv)
+    const args = yield* $(parseCommandLineArgs(argv))
+    const overrides = yield* $(parse(PartialConfigSchema, args.overrides))
+
     // Read and resolve the configuration
     const defaultConfig = getDefaultConfig(packageJson.name, packageJson.homepage)
-    const configPath = NodePath.join(cwd, CONFIG_FILE_NAME)
-    const maybeConfig = yield* $(loadConfig(configPath, fileSystem))
+    const maybeConfig = yield* $(
+      loadConfig(cwd, args.configPath),
+      Effect.provideService(FileSystem.FileSystem, fileSystem)
+    )
 
+    // Command-line arguments take precedence over the configuration file
     return Config.of(
       Option.match(maybeConfig, {
-        onNone: () => defaultConfig,
-        onSome: (loadedConfig) => ({ ...defaultConfig, ...loadedConfig })
+        onNone: () => ({ ...defaultConfig, ...overrides }),
+        onSome: (loadedConfig) => ({ ...defaultConfig, ...loadedConfig, ...overrides })
       })
     )
   })
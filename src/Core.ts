@@ -3,16 +3,30 @@
  */
 
 import chalk from "chalk"
-import { Data, Effect, Layer, Logger, LoggerLevel, pipe, ReadonlyArray, String } from "effect"
+import {
+  Data,
+  Effect,
+  Layer,
+  Logger,
+  LoggerLevel,
+  Option,
+  pipe,
+  ReadonlyArray,
+  ReadonlyRecord,
+  String
+} from "effect"
 import * as NodePath from "path"
 import * as ChildProcess from "./ChildProcess"
 import * as Config from "./Config"
 import type * as Domain from "./Domain"
+import * as Exports from "./Exports"
 import * as FileSystem from "./FileSystem"
+import * as Init from "./Init"
 import { SimpleLogger } from "./Logger"
-import { printModule } from "./Markdown"
+import { getUnresolvedLinks, printErrors, printModule, printServices } from "./Markdown"
 import * as Parser from "./Parser"
 import * as Process from "./Process"
+import * as Workspace from "./Workspace"
 
 // -------------------------------------------------------------------------------------
 // readFiles
@@ -30,6 +44,9 @@ const readFiles = Effect.all([Config.Config, FileSystem.FileSystem]).pipe(
             fileSystem.readFile(path),
             (content) => FileSystem.makeFile(path, content, false)
           ), { concurrency: "inherit" })
+      ),
+      Effect.flatMap((files) =>
+        config.useExports ? Exports.getPublicFiles(files) : Effect.succeed(files)
       )
     )
   )
@@ -88,25 +105,74 @@ export interface ParseError extends Data.Case {
  */
 export const ParseError = Data.tagged<ParseError>("ParseError")
 
+const checkReexports = (
+  modules: ReadonlyArray<Domain.Module>
+): Effect.Effect<never, ParseError, ReadonlyArray<Domain.Module>> => {
+  const paths = new Set(modules.map((module) => module.path.join("/")))
+  const errors = modules.flatMap((module) =>
+    module.reexports
+      .filter((reexport) => !paths.has(reexport.path.join("/")))
+      .map((reexport) =>
+        `The module ${reexport.path.join("/")} re-exported by ${
+          module.path.join("/")
+        } is not documented`
+      )
+  )
+  return errors.length > 0
+    ? Effect.fail(ParseError({ message: errors.join("\n") }))
+    : Effect.succeed(modules)
+}
+
+const checkLinks = (
+  modules: ReadonlyArray<Domain.Module>
+): Effect.Effect<never, ParseError, ReadonlyArray<Domain.Module>> => {
+  const errors = getUnresolvedLinks(modules).map((link) =>
+    `Unable to resolve ${chalk.bold(`{@link ${link.target}}`)} in ${
+      chalk.bold(link.path.join("/") + "#" + link.name)
+    } documentation`
+  )
+  return errors.length > 0
+    ? Effect.fail(ParseError({ message: errors.join("\n") }))
+    : Effect.succeed(modules)
+}
+
 const getModules = (files: ReadonlyArray<FileSystem.File>) =>
   Parser.parseFiles(files).pipe(
     Effect.mapError((errors) =>
-      ParseError({
-        message: errors
-          .map((errors) => errors.join("\n"))
-          .join("\n")
-      })
-    )
+      Array.isArray(errors)
+        ? ParseError({
+          message: errors
+            .map((errors) => errors.join("\n"))
+            .join("\n")
+        })
+        : errors
+    ),
+    Effect.flatMap(checkReexports),
+    Effect.flatMap(checkLinks)
   )
 
 // -------------------------------------------------------------------------------------
 // typeCheckExamples
 // -------------------------------------------------------------------------------------
 
-const typeCheckExamples = (modules: ReadonlyArray<Domain.Module>) =>
+const typeCheckExamples = (
+  modules: ReadonlyArray<Domain.Module>,
+  packages: ReadonlyArray<WorkspacePackage>
+) =>
+  Effect.if(Effect.map(Config.Config, (config) => config.runExamples), {
+    onTrue: Effect.logInfo("typechecking examples...").pipe(
+      Effect.zipRight(typeCheckExampleFiles(modules, packages))
+    ),
+    onFalse: Effect.logInfo("skipping examples typechecking...")
+  })
+
+const typeCheckExampleFiles = (
+  modules: ReadonlyArray<Domain.Module>,
+  packages: ReadonlyArray<WorkspacePackage>
+) =>
   getExampleFiles(modules)
     .pipe(
-      Effect.flatMap(handleImports),
+      Effect.flatMap((examples) => handleImports(examples, packages)),
       Effect.flatMap((examples) =>
         examples.length === 0
           ? cleanExamples
@@ -141,22 +207,37 @@ const getExampleFiles = (modules: ReadonlyArray<Domain.Module>) =>
             )
         )
 
+      // the overloads documented separately share the name of their function
+      const getCallableExamples = (id: string) =>
+      (
+        callable: Domain.Function | Domain.Method
+      ): ReadonlyArray<FileSystem.File> =>
+        ReadonlyArray.flatten([
+          getDocumentableExamples(id)(callable),
+          ReadonlyArray.flatMap(
+            callable.overloads,
+            (overload, i) => getDocumentableExamples(`${id}-overload${i}`)(overload)
+          )
+        ])
+
       const moduleExamples = getDocumentableExamples("module")(module)
       const methods = ReadonlyArray.flatMap(module.classes, (c) =>
         ReadonlyArray.flatten([
           ReadonlyArray.flatMap(
             c.methods,
-            getDocumentableExamples(`${c.name}-method`)
+            getCallableExamples(`${c.name}-method`)
           ),
           ReadonlyArray.flatMap(
             c.staticMethods,
-            getDocumentableExamples(`${c.name}-staticmethod`)
+            getCallableExamples(`${c.name}-staticmethod`)
           )
         ]))
-      const interfaces = ReadonlyArray.flatMap(
-        module.interfaces,
-        getDocumentableExamples("interface")
-      )
+      const interfaces = ReadonlyArray.flatMap(module.interfaces, (i) =>
+        ReadonlyArray.flatten([
+          getDocumentableExamples("interface")(i),
+          ReadonlyArray.flatMap(i.methods, getCallableExamples(`${i.name}-method`)),
+          ReadonlyArray.flatMap(i.properties, getDocumentableExamples(`${i.name}-property`))
+        ]))
       const typeAliases = ReadonlyArray.flatMap(
         module.typeAliases,
         getDocumentableExamples("typealias")
@@ -167,8 +248,13 @@ const getExampleFiles = (modules: ReadonlyArray<Domain.Module>) =>
       )
       const functions = ReadonlyArray.flatMap(
         module.functions,
-        getDocumentableExamples("function")
+        getCallableExamples("function")
       )
+      const enums = ReadonlyArray.flatMap(module.enums, (e) =>
+        ReadonlyArray.flatten([
+          getDocumentableExamples("enum")(e),
+          ReadonlyArray.flatMap(e.members, getDocumentableExamples(`${e.name}-member`))
+        ]))
 
       return ReadonlyArray.flatten([
         moduleExamples,
@@ -176,7 +262,8 @@ const getExampleFiles = (modules: ReadonlyArray<Domain.Module>) =>
         interfaces,
         typeAliases,
         constants,
-        functions
+        functions,
+        enums
       ])
     }))
 
@@ -185,25 +272,50 @@ const addAssertImport = (code: string): string =>
     ? `import * as assert from 'assert'\n${code}`
     : code
 
-const replaceProjectName = (source: string) =>
-  Effect.map(Config.Config, (config) => {
-    const importRegex = (projectName: string) =>
-      new RegExp(
-        `from (?<quote>['"])${projectName}(?:/lib)?(?:/(?<path>.*))?\\k<quote>`,
-        "g"
-      )
+const escapeRegExp = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
 
-    const out = source.replace(importRegex(config.projectName), (...args) => {
-      const groups: { path?: string } = args[args.length - 1]
-      return `from '../../src${groups.path ? `/${groups.path}` : ""}'`
-    })
+const importRegex = (packageName: string) =>
+  new RegExp(
+    `from (?<quote>['"])${escapeRegExp(packageName)}(?:/lib)?(?:/(?<path>.*))?\\k<quote>`,
+    "g"
+  )
 
-    return out
-  })
+/**
+ * Rewrites the imports of the project (i.e. of the package being documented,
+ * in a workspace), and of the sibling workspace packages, into relative
+ * imports of their source directories.
+ */
+const replaceImports = (source: string, packages: ReadonlyArray<WorkspacePackage>) =>
+  Effect.all([Config.Config, Process.Process]).pipe(
+    Effect.flatMap(([config, process]) =>
+      Effect.map(process.cwd, (cwd) => {
+        const examplesDir = join(cwd, config.outDir, "examples")
+        const srcDirs: ReadonlyArray<readonly [string, string]> = [
+          [config.projectName, join(cwd, config.srcDir)],
+          ...packages
+            .filter((pkg) => NodePath.resolve(pkg.path) !== NodePath.resolve(cwd))
+            .map((pkg) => [pkg.name, join(pkg.path, pkg.config.srcDir)] as const)
+        ]
+
+        return srcDirs.reduce(
+          (out, [packageName, srcDir]) =>
+            out.replace(importRegex(packageName), (...args) => {
+              const groups: { path?: string } = args[args.length - 1]
+              const path = toRelativePath(examplesDir, srcDir)
+              return `from '${path}${groups.path ? `/${groups.path}` : ""}'`
+            }),
+          source
+        )
+      })
+    )
+  )
 
-const handleImports = (files: ReadonlyArray<FileSystem.File>) =>
+const handleImports = (
+  files: ReadonlyArray<FileSystem.File>,
+  packages: ReadonlyArray<WorkspacePackage>
+) =>
   Effect.forEach(files, (file) =>
-    replaceProjectName(file.content).pipe(
+    replaceImports(file.content, packages).pipe(
       Effect.map(addAssertImport),
       Effect.map((content) => FileSystem.makeFile(file.path, content, file.overwrite))
     ))
@@ -253,15 +365,92 @@ const writeExamples = (examples: ReadonlyArray<FileSystem.File>) =>
     Effect.flatMap(writeFiles)
   )
 
+const toRelativePath = (from: string, to: string): string => {
+  const path = NodePath.relative(from, to).split(NodePath.sep).join("/")
+  return path.startsWith(".") ? path : `./${path}`
+}
+
+/**
+ * Derives the compiler options used to type check the examples from the
+ * `parseCompilerOptions`: since the examples live in `<outDir>/examples`, the
+ * `baseUrl` and the `paths` (which are relative to the project root) are
+ * re-rooted relative to that directory. The `examplesCompilerOptions` then
+ * override individual keys.
+ *
+ * @internal
+ */
+export const getExamplesCompilerOptions = (
+  config: Config.Config,
+  cwd: string
+): Record<string, unknown> => {
+  const examplesDir = join(cwd, config.outDir, "examples")
+  const { baseUrl, paths, ...compilerOptions } = config.parseCompilerOptions
+  const reroot = (path: string) => toRelativePath(examplesDir, NodePath.resolve(cwd, path))
+  const rerooted: Record<string, unknown> = { ...compilerOptions }
+  if (typeof baseUrl === "string") {
+    // `paths` are resolved relative to the `baseUrl`, if any
+    rerooted.baseUrl = reroot(baseUrl)
+    if (paths !== undefined) {
+      rerooted.paths = paths
+    }
+  } else if (typeof paths === "object" && paths !== null) {
+    rerooted.paths = ReadonlyRecord.map(
+      paths as ReadonlyRecord.ReadonlyRecord<ReadonlyArray<string>>,
+      (targets) => targets.map(reroot)
+    )
+  }
+  return { ...rerooted, ...config.examplesCompilerOptions }
+}
+
+/**
+ * Derives the `tsconfig.json` file used to type check the examples from the
+ * compiler options used to parse the source files: it extends the
+ * `tsconfig.json` file of the project, if any, so that its options (and their
+ * paths) are resolved the same way, while the re-rooted `parseCompilerOptions`
+ * and the `examplesCompilerOptions` are layered on top of them.
+ *
+ * The settings of the project that only make sense for its own sources (the
+ * files to include, the ambient `types`, the `rootDir` and the checks for
+ * unused code) are reset, the `examplesCompilerOptions` can still set them.
+ *
+ * @internal
+ */
+export const getExamplesTsConfig = (
+  config: Config.Config,
+  cwd: string,
+  tsConfigFilePath: Option.Option<string>
+): Record<string, unknown> => {
+  const examplesDir = join(cwd, config.outDir, "examples")
+  const compilerOptions = getExamplesCompilerOptions(config, cwd)
+  return Option.match(tsConfigFilePath, {
+    onNone: () => ({ compilerOptions: { strict: true, ...compilerOptions } }),
+    onSome: (path) => ({
+      extends: toRelativePath(examplesDir, path),
+      include: ["./**/*.ts"],
+      compilerOptions: {
+        types: [],
+        rootDir: toRelativePath(examplesDir, cwd),
+        noUnusedLocals: false,
+        noUnusedParameters: false,
+        ...compilerOptions
+      }
+    })
+  })
+}
+
 const writeTsConfigJson = Effect.logDebug("Writing examples tsconfig...").pipe(
-  Effect.flatMap(() => Effect.all([Config.Config, Process.Process])),
-  Effect.flatMap(([config, process]) =>
+  Effect.flatMap(() => Effect.all([Config.Config, Process.Process, Parser.getTsConfigFilePath])),
+  Effect.flatMap(([config, process, tsConfigFilePath]) =>
     process.cwd.pipe(
       Effect.flatMap((cwd) =>
         writeFile(
           FileSystem.makeFile(
             join(cwd, config.outDir, "examples", "tsconfig.json"),
-            JSON.stringify({ compilerOptions: config.examplesCompilerOptions }, null, 2),
+            JSON.stringify(
+              getExamplesTsConfig(config, cwd, tsConfigFilePath),
+              null,
+              2
+            ),
             true
           )
         )
@@ -279,10 +468,14 @@ const getMarkdown = (modules: ReadonlyArray<Domain.Module>) =>
     Effect.bind("home", () => getHome),
     Effect.bind("index", () => getModulesIndex),
     Effect.bind("yml", () => getConfigYML),
-    Effect.flatMap(({ home, index, yml }) =>
+    Effect.bind("services", () => getServicesMarkdownFile(modules)),
+    Effect.bind("errors", () => getErrorsMarkdownFile(modules)),
+    Effect.flatMap(({ errors, home, index, services, yml }) =>
       pipe(
         getModuleMarkdownFiles(modules),
-        Effect.map((files) => [home, index, yml].concat(files))
+        Effect.map((files) =>
+          [home, index, yml].concat(files, Option.toArray(services), Option.toArray(errors))
+        )
       )
     )
   )
@@ -407,10 +600,48 @@ const getModuleMarkdownFiles = (modules: ReadonlyArray<Domain.Module>) =>
     Effect.Do
       .pipe(
         Effect.bind("outputPath", () => getMarkdownOutputPath(module)),
-        Effect.bind("content", () => Effect.succeed(printModule(module, order + 1))),
-        Effect.map(({ content, outputPath }) => FileSystem.makeFile(outputPath, content, true))
+        Effect.bind("content", () =>
+          Effect.succeed(printModule(module, order + 1, "Modules", modules))),
+        Effect.map(({ content, outputPath }) =>
+          FileSystem.makeFile(outputPath, content, true)
+        )
       ))
 
+/**
+ * A catalog (e.g. of the services) is only printed if it lists something,
+ * otherwise the page left by a previous run is deleted.
+ *
+ * @internal
+ */
+export const getCatalogMarkdownFile = (path: string, content: Option.Option<string>) =>
+  Option.match(content, {
+    onNone: () =>
+      Effect.flatMap(FileSystem.FileSystem, (fileSystem) =>
+        Effect.if(fileSystem.pathExists(path), {
+          onTrue: Effect.logDebug(`deleting ${chalk.black(path)}`).pipe(
+            Effect.zipRight(fileSystem.removeFile(path))
+          ),
+          onFalse: Effect.unit
+        })).pipe(Effect.as(Option.none<FileSystem.File>())),
+    onSome: (content) => Effect.succeed(Option.some(FileSystem.makeFile(path, content, true)))
+  })
+
+// the catalog of the services is printed next to the pages of the modules
+const getServicesMarkdownFile = (modules: ReadonlyArray<Domain.Module>) =>
+  Effect.flatMap(Config.Config, (config) =>
+    getCatalogMarkdownFile(
+      join(config.outDir, "modules", "services.md"),
+      printServices(modules, modules.length + 1, "Modules")
+    ))
+
+// the catalog of the errors is printed after the one of the services
+const getErrorsMarkdownFile = (modules: ReadonlyArray<Domain.Module>) =>
+  Effect.flatMap(Config.Config, (config) =>
+    getCatalogMarkdownFile(
+      join(config.outDir, "modules", "errors.md"),
+      printErrors(modules, modules.length + 2, "Modules")
+    ))
+
 // -------------------------------------------------------------------------------------
 // writeMarkdown
 // -------------------------------------------------------------------------------------
@@ -428,30 +659,196 @@ const writeMarkdown = (files: ReadonlyArray<FileSystem.File>) =>
     return yield* _(writeFiles(files))
   })
 
-const MainLayer = Logger.replace(Logger.defaultLogger, SimpleLogger).pipe(
+// -------------------------------------------------------------------------------------
+// workspace
+// -------------------------------------------------------------------------------------
+
+/**
+ * A package of the workspace along with its own configuration.
+ */
+interface WorkspacePackage extends Workspace.Package {
+  readonly config: Config.Config
+}
+
+const withWorkingDirectory =
+  (directory: string) =>
+  <R, E, A>(self: Effect.Effect<R, E, A>): Effect.Effect<R | Process.Process, E, A> =>
+    Effect.flatMap(Process.Process, (process) =>
+      Effect.acquireUseRelease(
+        Effect.tap(process.cwd, () => process.chdir(directory)),
+        () => self,
+        (cwd) => process.chdir(cwd)
+      ))
+
+// the configuration of each package is resolved from the one of the workspace,
+// along with the configuration file of the package and the command-line overrides
+const getPackageConfig = (pkg: Workspace.Package) =>
+  Config.Config.pipe(
+    Effect.flatMap((config) => Config.resolvePackageConfig(config, pkg.path)),
+    Effect.map((config): WorkspacePackage => ({ ...pkg, config }))
+  )
+
+/**
+ * Reads the packages of the workspace along with their own configuration.
+ *
+ * @internal
+ */
+export const getWorkspacePackages = Effect.logInfo("reading workspace packages...").pipe(
+  Effect.zipRight(Workspace.getPackages),
+  Effect.tap((packages) => Effect.logInfo(chalk.bold(`${packages.length} package(s) found`))),
+  Effect.flatMap(Effect.forEach(getPackageConfig))
+)
+
+const getPackageSlug = (pkg: Workspace.Package): string =>
+  pkg.name.replace(/^@/, "").replace(/[^\w.-]+/g, "-")
+
+// the directory of the documentation of a package in the one of the workspace
+const getPackageOutDir = (pkg: Workspace.Package) =>
+  Effect.all([Config.Config, Process.Process]).pipe(
+    Effect.flatMap(([config, process]) =>
+      Effect.map(process.cwd, (cwd) => join(cwd, config.outDir, getPackageSlug(pkg)))
+    )
+  )
+
+const getPackageIndex = (pkg: Workspace.Package, order: number) =>
+  Effect.map(getPackageOutDir(pkg), (outDir) =>
+    FileSystem.makeFile(
+      join(outDir, "index.md"),
+      String.stripMargin(
+        `|---
+         |title: ${JSON.stringify(pkg.name)}
+         |has_children: true
+         |permalink: /docs/${getPackageSlug(pkg)}
+         |nav_order: ${order}
+         |---
+         |`
+      ),
+      false
+    ))
+
+const getPackageMarkdownFiles = (
+  pkg: Workspace.Package,
+  modules: ReadonlyArray<Domain.Module>
+) =>
+  Effect.map(getPackageOutDir(pkg), (outDir) =>
+    modules.map((module, order) =>
+      FileSystem.makeFile(
+        join(outDir, `${module.path.slice(1).join(NodePath.sep)}.md`),
+        printModule(module, order + 1, pkg.name, modules),
+        true
+      )
+    ))
+
+const getPackageServicesMarkdownFile = (
+  pkg: Workspace.Package,
+  modules: ReadonlyArray<Domain.Module>
+) =>
+  Effect.flatMap(getPackageOutDir(pkg), (outDir) =>
+    getCatalogMarkdownFile(
+      join(outDir, "services.md"),
+      printServices(modules, modules.length + 1, pkg.name)
+    ))
+
+const getPackageErrorsMarkdownFile = (
+  pkg: Workspace.Package,
+  modules: ReadonlyArray<Domain.Module>
+) =>
+  Effect.flatMap(getPackageOutDir(pkg), (outDir) =>
+    getCatalogMarkdownFile(
+      join(outDir, "errors.md"),
+      printErrors(modules, modules.length + 2, pkg.name)
+    ))
+
+const getWorkspaceMarkdown = (
+  packages: ReadonlyArray<readonly [WorkspacePackage, ReadonlyArray<Domain.Module>]>
+) =>
+  Effect.Do.pipe(
+    Effect.bind("home", () => getHome),
+    Effect.bind("yml", () => getConfigYML),
+    Effect.flatMap(({ home, yml }) =>
+      pipe(
+        Effect.forEach(packages, ([pkg, modules], i) =>
+          Effect.all([
+            getPackageIndex(pkg, i + 2),
+            getPackageMarkdownFiles(pkg, modules),
+            getPackageServicesMarkdownFile(pkg, modules),
+            getPackageErrorsMarkdownFile(pkg, modules)
+          ]).pipe(
+            Effect.map(([index, files, services, errors]) =>
+              ReadonlyArray.prepend(
+                files.concat(Option.toArray(services), Option.toArray(errors)),
+                index
+              )
+            )
+          )),
+        Effect.map((files) => [home, yml].concat(ReadonlyArray.flatten(files)))
+      )
+    )
+  )
+
+const BaseLayer = Logger.replace(Logger.defaultLogger, SimpleLogger).pipe(
   Layer.merge(ChildProcess.ChildProcessLive),
   Layer.merge(FileSystem.FileSystemLive),
-  Layer.merge(Process.ProcessLive),
-  Layer.provideMerge(Config.ConfigLive)
+  Layer.merge(Process.ProcessLive)
 )
 
-/**
- * @category main
- * @since 1.0.0
- */
-export const main: Effect.Effect<never, never, void> = Effect.logInfo("reading modules...").pipe(
-  Effect.zipRight(readFiles),
-  Effect.zipLeft(Effect.logInfo("parsing modules...")),
-  Effect.flatMap(getModules),
-  Effect.zipLeft(Effect.logInfo("typechecking examples...")),
-  Effect.tap(typeCheckExamples),
+const MainLayer = BaseLayer.pipe(Layer.provideMerge(Config.ConfigLive))
+
+const getDocumentedModules = (packages: ReadonlyArray<WorkspacePackage>) =>
+  Effect.logInfo("reading modules...").pipe(
+    Effect.zipRight(readFiles),
+    Effect.zipLeft(Effect.logInfo("parsing modules...")),
+    Effect.flatMap(getModules),
+    Effect.tap((modules) => typeCheckExamples(modules, packages))
+  )
+
+const succeeded = Effect.logInfo(chalk.bold.green("Docs generation succeeded!"))
+
+const program = getDocumentedModules([]).pipe(
   Effect.zipLeft(Effect.logInfo("creating markdown files...")),
   Effect.flatMap(getMarkdown),
   Effect.zipLeft(Effect.logInfo("writing markdown files...")),
   Effect.flatMap(writeMarkdown),
-  Effect.zipLeft(Effect.logInfo(chalk.bold.green("Docs generation succeeded!"))),
-  Logger.withMinimumLogLevel(LoggerLevel.Debug),
-  Effect.provideLayer(MainLayer),
+  Effect.zipLeft(succeeded)
+)
+
+const workspaceProgram = getWorkspacePackages.pipe(
+  Effect.flatMap((packages) =>
+    Effect.forEach(packages, (pkg) =>
+      Effect.logInfo(chalk.bold(`documenting ${pkg.name}...`)).pipe(
+        Effect.zipRight(getDocumentedModules(packages)),
+        Effect.provideService(Config.Config, pkg.config),
+        withWorkingDirectory(pkg.path),
+        Effect.map((modules) => [pkg, modules] as const)
+      ))
+  ),
+  Effect.zipLeft(Effect.logInfo("creating markdown files...")),
+  Effect.flatMap(getWorkspaceMarkdown),
+  Effect.zipLeft(Effect.logInfo("writing markdown files...")),
+  Effect.flatMap(writeMarkdown),
+  Effect.zipLeft(succeeded)
+)
+
+/**
+ * @category main
+ * @since 1.0.0
+ */
+export const main: Effect.Effect<never, never, void> = Process.Process.pipe(
+  Effect.flatMap((process) => process.argv),
+  Effect.flatMap((argv) =>
+    argv[0] === "init"
+      ? Effect.provideLayer(Init.init(argv.slice(1)), BaseLayer)
+      : Config.Config.pipe(
+        Effect.flatMap((config) =>
+          Logger.withMinimumLogLevel(
+            config.workspace ? workspaceProgram : program,
+            LoggerLevel.fromLiteral(config.logLevel)
+          )
+        ),
+        Effect.provideLayer(MainLayer)
+      )
+  ),
+  Effect.provideLayer(Process.ProcessLive),
   Effect.catchTags({
     // Configuration errors
     ConfigError: ({ message }) => Effect.dieMessage(message),
@@ -17,6 +17,8 @@ export interface Module extends Documentable {
   readonly constants: ReadonlyArray<Constant>
   readonly exports: ReadonlyArray<Export>
   readonly namespaces: ReadonlyArray<Namespace>
+  readonly enums: ReadonlyArray<Enum>
+  readonly reexports: ReadonlyArray<Reexport>
 }
 
 /**
@@ -56,6 +58,73 @@ export interface Class extends Documentable {
  */
 export interface Method extends Documentable {
   readonly signatures: ReadonlyArray<string>
+  readonly parameters: ReadonlyArray<Parameter>
+  readonly returns: Option.Option<string>
+  readonly throws: ReadonlyArray<string>
+  readonly effect: Option.Option<EffectType>
+  /**
+   * The overloads, when they are documented separately.
+   */
+  readonly overloads: ReadonlyArray<Overload>
+}
+
+/**
+ * An overload of a function or a method documented by its own JSDoc comment.
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface Overload extends Documentable {
+  readonly signature: string
+  readonly parameters: ReadonlyArray<Parameter>
+  readonly returns: Option.Option<string>
+  readonly throws: ReadonlyArray<string>
+  readonly effect: Option.Option<EffectType>
+}
+
+/**
+ * The breakdown of the `Effect`, `Stream` or `Layer` type returned by a
+ * function or a method, e.g. `Effect<Database, NotFound | Timeout, User>`.
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface EffectType {
+  readonly name: "Effect" | "Stream" | "Layer"
+  /**
+   * The members of the union of the required services.
+   */
+  readonly requirements: ReadonlyArray<string>
+  /**
+   * The members of the union of the errors.
+   */
+  readonly errors: ReadonlyArray<string>
+  /**
+   * The members of the union of the success types, i.e. the services provided
+   * by a `Layer`.
+   */
+  readonly success: ReadonlyArray<string>
+  /**
+   * The members referring to a declared type, e.g. `Database`, which may be
+   * linked to its documentation, unlike `never`, `string` or a type parameter.
+   */
+  readonly references: ReadonlyArray<string>
+  /**
+   * The interfaces declaring the errors, e.g. `/src/Errors.ts#NotFound`, which
+   * tell apart the errors of the same name declared by different modules.
+   */
+  readonly errorDeclarations: ReadonlyArray<string>
+}
+
+/**
+ * A parameter documented by a `@param` tag.
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface Parameter {
+  readonly name: string
+  readonly description: Option.Option<string>
 }
 
 /**
@@ -73,6 +142,33 @@ export interface Property extends Documentable {
 export interface Interface extends Documentable {
   readonly _tag: "Interface"
   readonly signature: string
+  readonly methods: ReadonlyArray<Method>
+  readonly properties: ReadonlyArray<Property>
+  /**
+   * The `_tag` and the fields of the interface, if it describes a tagged error.
+   */
+  readonly error: Option.Option<TaggedError>
+}
+
+/**
+ * A tagged error, e.g. an interface extending `Data.Case` with a
+ * `readonly _tag: "NotFound"` property.
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface TaggedError {
+  readonly tag: string
+  /**
+   * The signatures of the fields, other than `_tag`.
+   */
+  readonly fields: ReadonlyArray<string>
+  /**
+   * The file and the qualified name of the interface, e.g.
+   * `/src/FileSystem.ts#ReadFileError`, matched against the errors of the
+   * `Effect` types.
+   */
+  readonly declaration: string
 }
 
 /**
@@ -82,8 +178,29 @@ export interface Interface extends Documentable {
 export interface Function extends Documentable {
   readonly _tag: "Function"
   readonly signatures: ReadonlyArray<string>
+  readonly parameters: ReadonlyArray<Parameter>
+  readonly returns: Option.Option<string>
+  readonly throws: ReadonlyArray<string>
+  readonly effect: Option.Option<EffectType>
+  /**
+   * The overloads, when they are documented separately.
+   */
+  readonly overloads: ReadonlyArray<Overload>
+  /**
+   * The call style of each signature of a `dual` API (empty otherwise).
+   */
+  readonly callStyles: ReadonlyArray<CallStyle>
 }
 
+/**
+ * The two ways of calling a `dual` API: `map(f)(self)` is data-last while
+ * `map(self, f)` is data-first.
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export type CallStyle = "data-last" | "data-first"
+
 /**
  * @category model
  * @since 1.0.0
@@ -100,6 +217,62 @@ export interface TypeAlias extends Documentable {
 export interface Constant extends Documentable {
   readonly _tag: "Constant"
   readonly signature: string
+  /**
+   * The breakdown of the type of the constant, e.g. of a `Layer`.
+   */
+  readonly effect: Option.Option<EffectType>
+  /**
+   * The identifier of the service, if the constant is a `Context.Tag`.
+   */
+  readonly service: Option.Option<string>
+  /**
+   * The encoded and decoded types, if the constant is a `Schema`.
+   */
+  readonly schema: Option.Option<SchemaType>
+}
+
+/**
+ * The breakdown of the type of a `Schema<From, To>` constant.
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface SchemaType {
+  /**
+   * The encoded type.
+   */
+  readonly from: string
+  /**
+   * The decoded type.
+   */
+  readonly to: string
+  /**
+   * The JSON Schema of the encoded type, when `emitJsonSchemas` is enabled.
+   */
+  readonly jsonSchema: Option.Option<string>
+}
+
+/**
+ * Represents an `enum` (or `const enum`) declaration.
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface Enum extends Documentable {
+  readonly _tag: "Enum"
+  readonly signature: string
+  readonly members: ReadonlyArray<EnumMember>
+}
+
+/**
+ * @category model
+ * @since 1.0.0
+ */
+export interface EnumMember extends Documentable {
+  /**
+   * The constant value of the member, if it can be computed.
+   */
+  readonly value: Option.Option<string | number>
 }
 
 /**
@@ -121,6 +294,30 @@ export interface Export extends Documentable {
   readonly signature: string
 }
 
+/**
+ * These are re-exports of whole modules, like:
+ *
+ * ```ts
+ * export * from "./Option"
+ *
+ * export * as Either from "./Either"
+ * ```
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface Reexport extends Documentable {
+  readonly _tag: "Reexport"
+  /**
+   * The name of the namespace of an `export * as ns from` declaration.
+   */
+  readonly namespace: Option.Option<string>
+  /**
+   * The path of the re-exported module.
+   */
+  readonly path: ReadonlyArray<string>
+}
+
 /**
  * @category model
  * @since 1.0.0
@@ -130,6 +327,10 @@ export interface Namespace extends Documentable {
   readonly interfaces: ReadonlyArray<Interface>
   readonly typeAliases: ReadonlyArray<TypeAlias>
   readonly namespaces: ReadonlyArray<Namespace>
+  readonly classes: ReadonlyArray<Class>
+  readonly functions: ReadonlyArray<Function>
+  readonly constants: ReadonlyArray<Constant>
+  readonly enums: ReadonlyArray<Enum>
 }
 
 // -------------------------------------------------------------------------------------
@@ -169,7 +370,9 @@ export const createModule = (
   typeAliases: ReadonlyArray<TypeAlias>,
   constants: ReadonlyArray<Constant>,
   exports: ReadonlyArray<Export>,
-  namespaces: ReadonlyArray<Namespace>
+  namespaces: ReadonlyArray<Namespace>,
+  enums: ReadonlyArray<Enum>,
+  reexports: ReadonlyArray<Reexport>
 ): Module => ({
   ...documentable,
   path,
@@ -179,7 +382,9 @@ export const createModule = (
   typeAliases,
   constants,
   exports,
-  namespaces
+  namespaces,
+  enums,
+  reexports
 })
 
 /**
@@ -207,11 +412,31 @@ export const createClass = (
  */
 export const createConstant = (
   documentable: Documentable,
-  signature: string
+  signature: string,
+  effect: Option.Option<EffectType>,
+  service: Option.Option<string>,
+  schema: Option.Option<SchemaType>
 ): Constant => ({
   _tag: "Constant",
   ...documentable,
-  signature
+  signature,
+  effect,
+  service,
+  schema
+})
+
+/**
+ * @category constructors
+ * @since 1.0.0
+ */
+export const createSchemaType = (
+  from: string,
+  to: string,
+  jsonSchema: Option.Option<string>
+): SchemaType => ({
+  from,
+  to,
+  jsonSchema
 })
 
 /**
@@ -220,10 +445,72 @@ export const createConstant = (
  */
 export const createMethod = (
   documentable: Documentable,
-  signatures: ReadonlyArray<string>
+  signatures: ReadonlyArray<string>,
+  parameters: ReadonlyArray<Parameter>,
+  returns: Option.Option<string>,
+  throws: ReadonlyArray<string>,
+  effect: Option.Option<EffectType>,
+  overloads: ReadonlyArray<Overload>
 ): Method => ({
   ...documentable,
-  signatures
+  signatures,
+  parameters,
+  returns,
+  throws,
+  effect,
+  overloads
+})
+
+/**
+ * @category constructors
+ * @since 1.0.0
+ */
+export const createOverload = (
+  documentable: Documentable,
+  signature: string,
+  parameters: ReadonlyArray<Parameter>,
+  returns: Option.Option<string>,
+  throws: ReadonlyArray<string>,
+  effect: Option.Option<EffectType>
+): Overload => ({
+  ...documentable,
+  signature,
+  parameters,
+  returns,
+  throws,
+  effect
+})
+
+/**
+ * @category constructors
+ * @since 1.0.0
+ */
+export const createEffectType = (
+  name: EffectType["name"],
+  requirements: ReadonlyArray<string>,
+  errors: ReadonlyArray<string>,
+  success: ReadonlyArray<string>,
+  references: ReadonlyArray<string>,
+  errorDeclarations: ReadonlyArray<string>
+): EffectType => ({
+  name,
+  requirements,
+  errors,
+  success,
+  references,
+  errorDeclarations
+})
+
+/**
+ * @category constructors
+ * @since 1.0.0
+ */
+export const createParameter = (
+  name: string,
+  description: Option.Option<string>
+): Parameter => ({
+  name,
+  description
 })
 
 /**
@@ -244,11 +531,31 @@ export const createProperty = (
  */
 export const createInterface = (
   documentable: Documentable,
-  signature: string
+  signature: string,
+  methods: ReadonlyArray<Method>,
+  properties: ReadonlyArray<Property>,
+  error: Option.Option<TaggedError>
 ): Interface => ({
   _tag: "Interface",
   ...documentable,
-  signature
+  signature,
+  methods,
+  properties,
+  error
+})
+
+/**
+ * @category constructors
+ * @since 1.0.0
+ */
+export const createTaggedError = (
+  tag: string,
+  fields: ReadonlyArray<string>,
+  declaration: string
+): TaggedError => ({
+  tag,
+  fields,
+  declaration
 })
 
 /**
@@ -257,11 +564,23 @@ export const createInterface = (
  */
 export const createFunction = (
   documentable: Documentable,
-  signatures: ReadonlyArray<string>
+  signatures: ReadonlyArray<string>,
+  parameters: ReadonlyArray<Parameter>,
+  returns: Option.Option<string>,
+  throws: ReadonlyArray<string>,
+  effect: Option.Option<EffectType>,
+  overloads: ReadonlyArray<Overload>,
+  callStyles: ReadonlyArray<CallStyle>
 ): Function => ({
   _tag: "Function",
   ...documentable,
-  signatures
+  signatures,
+  parameters,
+  returns,
+  throws,
+  effect,
+  overloads,
+  callStyles
 })
 
 /**
@@ -290,6 +609,48 @@ export const createExport = (
   signature
 })
 
+/**
+ * @category constructors
+ * @since 1.0.0
+ */
+export const createReexport = (
+  documentable: Documentable,
+  namespace: Option.Option<string>,
+  path: ReadonlyArray<string>
+): Reexport => ({
+  _tag: "Reexport",
+  ...documentable,
+  namespace,
+  path
+})
+
+/**
+ * @category constructors
+ * @since 1.0.0
+ */
+export const createEnum = (
+  documentable: Documentable,
+  signature: string,
+  members: ReadonlyArray<EnumMember>
+): Enum => ({
+  _tag: "Enum",
+  ...documentable,
+  signature,
+  members
+})
+
+/**
+ * @category constructors
+ * @since 1.0.0
+ */
+export const createEnumMember = (
+  documentable: Documentable,
+  value: Option.Option<string | number>
+): EnumMember => ({
+  ...documentable,
+  value
+})
+
 /**
  * @category constructors
  * @since 1.0.0
@@ -298,13 +659,21 @@ export const createNamespace = (
   documentable: Documentable,
   interfaces: ReadonlyArray<Interface>,
   typeAliases: ReadonlyArray<TypeAlias>,
-  namespaces: ReadonlyArray<Namespace>
+  namespaces: ReadonlyArray<Namespace>,
+  classes: ReadonlyArray<Class>,
+  functions: ReadonlyArray<Function>,
+  constants: ReadonlyArray<Constant>,
+  enums: ReadonlyArray<Enum>
 ): Namespace => ({
   _tag: "Namespace",
   ...documentable,
   interfaces,
   typeAliases,
-  namespaces
+  namespaces,
+  classes,
+  functions,
+  constants,
+  enums
 })
 
 /**
@@ -0,0 +1,244 @@
+/**
+ * @since 1.0.0
+ */
+import * as Schema from "@effect/schema/Schema"
+import chalk from "chalk"
+import { Effect, Option, pipe, ReadonlyArray } from "effect"
+import * as NodePath from "node:path"
+import { ts } from "ts-morph"
+import * as Config from "./Config"
+import * as FileSystem from "./FileSystem"
+import * as Process from "./Process"
+
+const PACKAGE_JSON_FILE_NAME = "package.json"
+
+/**
+ * Represents an entry point of the `exports` map of a `package.json` file,
+ * along with the files it points to (for every condition).
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface EntryPoint {
+  readonly subpath: string
+  readonly targets: ReadonlyArray<string>
+}
+
+const PackageJsonSchema = Schema.struct({
+  exports: Schema.optional(Schema.unknown)
+})
+
+const CODE_EXTENSION_REGEX = /\.(?:d\.[cm]?ts|[cm]?[jt]sx?)$/
+
+const getTargets = (value: unknown): ReadonlyArray<string> => {
+  if (typeof value === "string") {
+    return [value]
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(getTargets)
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.values(value).flatMap(getTargets)
+  }
+  // `null` targets exclude a subpath (see `getExcludedSubpaths`)
+  return []
+}
+
+const isSubpathMap = (exports: unknown): exports is Record<string, unknown> =>
+  typeof exports === "object" && exports !== null && !Array.isArray(exports) &&
+  Object.keys(exports).every((key) => key.startsWith("."))
+
+/**
+ * Extracts the entry points from the `exports` field of a `package.json` file,
+ * which can either be a single target, an object of conditions or an object
+ * of subpaths. Targets which are not modules (e.g. `./package.json`) are
+ * ignored.
+ *
+ * @internal
+ */
+export const getEntryPoints = (exports: unknown): ReadonlyArray<EntryPoint> => {
+  const entries: ReadonlyArray<readonly [string, unknown]> = isSubpathMap(exports)
+    ? Object.entries(exports)
+    : [[".", exports]]
+  return pipe(
+    entries,
+    ReadonlyArray.map(([subpath, value]) => ({
+      subpath,
+      targets: getTargets(value).filter((target) => CODE_EXTENSION_REGEX.test(target))
+    })),
+    ReadonlyArray.filter((entryPoint) => entryPoint.targets.length > 0)
+  )
+}
+
+/**
+ * Extracts the subpaths excluded by a `null` target from the `exports` field of
+ * a `package.json` file, e.g. `"./internal/*": null`.
+ *
+ * @internal
+ */
+export const getExcludedSubpaths = (exports: unknown): ReadonlyArray<string> =>
+  isSubpathMap(exports)
+    ? Object.keys(exports).filter((subpath) => exports[subpath] === null)
+    : []
+
+const toRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "(.+)")}$`)
+
+const getModuleId = (path: string): string =>
+  path.split(NodePath.sep).join("/").replace(/\.ts$/, "").replace(/(^|\/)index$/, "")
+
+/**
+ * Maps an entry point to the source files it exposes, given the paths of the
+ * source files relative to the source directory. Since the targets usually
+ * point to build artifacts (e.g. `./dist/esm/Option.js`), the leading
+ * directories of a target are dropped until it matches some source files.
+ *
+ * The source files of the `excludedSubpaths` matched by a wildcard entry point
+ * (e.g. `./internal/*` for `./*`) are left out.
+ *
+ * @internal
+ */
+export const resolveEntryPoint = (
+  entryPoint: EntryPoint,
+  paths: ReadonlyArray<string>,
+  excludedSubpaths: ReadonlyArray<string> = []
+): ReadonlyArray<string> => {
+  // the wildcard of the entry point as captured by each excluded subpath
+  const exclusions = entryPoint.subpath.includes("*")
+    ? ReadonlyArray.filterMap(excludedSubpaths, (subpath) =>
+      Option.map(
+        Option.fromNullable(subpath.match(toRegExp(entryPoint.subpath))),
+        (match) => match[1]
+      ))
+    : []
+  const getSegments = (target: string) =>
+    target.replace(/^\.\//, "").replace(CODE_EXTENSION_REGEX, "").split("/")
+  const toModuleRegExp = (target: string, start: number) =>
+    toRegExp(getModuleId(getSegments(target).slice(start).join("/")))
+  return pipe(
+    entryPoint.targets,
+    ReadonlyArray.flatMap((target) =>
+      ReadonlyArray.range(0, getSegments(target).length - 1).map((start) => {
+        const regex = toModuleRegExp(target, start)
+        return {
+          matches: paths.filter((path) => regex.test(getModuleId(path))),
+          // the leading directories of the excluded subpaths are dropped as well
+          excluded: exclusions.map((wildcard) =>
+            toModuleRegExp(target.replace(/\*/g, wildcard), start)
+          )
+        }
+      })
+    ),
+    ReadonlyArray.findFirst(({ matches }) => matches.length > 0),
+    Option.map(({ excluded, matches }) =>
+      matches.filter((path) => !excluded.some((regex) => regex.test(getModuleId(path))))
+    ),
+    Option.getOrElse((): ReadonlyArray<string> => [])
+  )
+}
+
+/**
+ * Returns the paths of the modules re-exported by a source file (`export *
+ * from`, `export * as ns from`, `export { a } from`), relative to the
+ * directory of the file.
+ *
+ * @internal
+ */
+export const getReexports = (content: string): ReadonlyArray<string> =>
+  ts.createSourceFile("module.ts", content, ts.ScriptTarget.Latest).statements.flatMap(
+    (statement) =>
+      ts.isExportDeclaration(statement) && statement.moduleSpecifier !== undefined &&
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.moduleSpecifier.text.startsWith(".")
+        ? [statement.moduleSpecifier.text]
+        : []
+  )
+
+const getReachableFiles = (
+  entries: ReadonlyArray<FileSystem.File>,
+  files: ReadonlyArray<FileSystem.File>
+): ReadonlyArray<FileSystem.File> => {
+  const byModuleId = new Map(files.map((file) => [getModuleId(file.path), file]))
+  const reachable = new Set<FileSystem.File>()
+  const visit = (file: FileSystem.File): void => {
+    if (reachable.has(file)) {
+      return
+    }
+    reachable.add(file)
+    for (const specifier of getReexports(file.content)) {
+      const path = NodePath.join(NodePath.dirname(file.path), specifier)
+      const reexported = byModuleId.get(getModuleId(path.replace(/\.[cm]?js$/, ".ts")))
+      if (reexported !== undefined) {
+        visit(reexported)
+      }
+    }
+  }
+  entries.forEach(visit)
+  return files.filter((file) => reachable.has(file))
+}
+
+/**
+ * Filters the source files keeping only the modules reachable from the entry
+ * points of the `exports` map of the `package.json` file, i.e. the entry
+ * points themselves and the modules they (transitively) re-export.
+ *
+ * Fails if an entry point doesn't map to any of the source files.
+ *
+ * @category exports
+ * @since 1.0.0
+ */
+export const getPublicFiles = (
+  files: ReadonlyArray<FileSystem.File>
+): Effect.Effect<
+  Config.Config | FileSystem.FileSystem | Process.Process,
+  Config.ConfigError | FileSystem.ReadFileError | FileSystem.ParseJsonError,
+  ReadonlyArray<FileSystem.File>
+> =>
+  Effect.all([Config.Config, FileSystem.FileSystem, Process.Process]).pipe(
+    Effect.flatMap(([config, fileSystem, process]) =>
+      process.cwd.pipe(
+        Effect.flatMap((cwd) => {
+          const packageJsonPath = NodePath.join(cwd, PACKAGE_JSON_FILE_NAME)
+          return Config.parseJsonFile(PackageJsonSchema, packageJsonPath, fileSystem).pipe(
+            Effect.flatMap(({ exports }) => {
+              const entryPoints = getEntryPoints(exports)
+              if (entryPoints.length === 0) {
+                return Effect.fail(
+                  Config.ConfigError({
+                    message:
+                      `Unable to find any entry point in the "exports" field of ${packageJsonPath}`
+                  })
+                )
+              }
+              const paths = files.map((file) => NodePath.relative(config.srcDir, file.path))
+              const excludedSubpaths = getExcludedSubpaths(exports)
+              const resolved = entryPoints.map((entryPoint) =>
+                [entryPoint, resolveEntryPoint(entryPoint, paths, excludedSubpaths)] as const
+              )
+              const unresolved = resolved.filter(([, paths]) => paths.length === 0)
+              if (unresolved.length > 0) {
+                return Effect.fail(
+                  Config.ConfigError({
+                    message: unresolved.map(([entryPoint]) =>
+                      `The exported entry point '${entryPoint.subpath}' (${
+                        entryPoint.targets.join(", ")
+                      }) doesn't map to any documented source file`
+                    ).join("\n")
+                  })
+                )
+              }
+              const entries = files.filter((file) =>
+                resolved.some(([, paths]) =>
+                  paths.includes(NodePath.relative(config.srcDir, file.path))
+                )
+              )
+              return Effect.succeed(getReachableFiles(entries, files))
+            }),
+            Effect.tap((publicFiles) =>
+              Effect.logInfo(chalk.bold(`${publicFiles.length} public module(s) found`))
+            )
+          )
+        })
+      )
+    )
+  )
@@ -0,0 +1,297 @@
+/**
+ * @since 1.0.0
+ */
+import * as Schema from "@effect/schema/Schema"
+import chalk from "chalk"
+import { Effect, Option, pipe, ReadonlyArray } from "effect"
+import { createRequire } from "node:module"
+import * as NodePath from "node:path"
+import { ts } from "ts-morph"
+import * as Config from "./Config"
+import * as FileSystem from "./FileSystem"
+import * as Process from "./Process"
+
+const CONFIG_FILE_NAME = "docgen.json"
+const PACKAGE_JSON_FILE_NAME = "package.json"
+const TSCONFIG_FILE_NAME = "tsconfig.json"
+const DEFAULT_SRC_DIR = "src"
+const DOCS_SCRIPT = "docgen"
+
+/**
+ * The settings of the project read by `docgen init` from the `package.json`
+ * and `tsconfig.json` files.
+ *
+ * @internal
+ */
+export interface Project {
+  readonly name: string
+  readonly srcDir: string
+  /**
+   * Whether the `paths` of the `tsconfig.json` file already map the package
+   * name.
+   */
+  readonly isMapped: boolean
+  /**
+   * The `baseUrl` of the `tsconfig.json` file, relative to the project root.
+   */
+  readonly baseUrl: Option.Option<string>
+}
+
+const toRelativePath = (from: string, to: string): string => {
+  const path = NodePath.relative(from, to).split(NodePath.sep).join("/")
+  return path === "" ? "." : path.startsWith(".") ? path : `./${path}`
+}
+
+/**
+ * Builds the content of the `docgen.json` file of a project: unless the
+ * `tsconfig.json` file already maps the package name, it is mapped to the
+ * source directory for parsing the modules, relative to the `baseUrl` of the
+ * `tsconfig.json` file, if any. The compiler options used to type check the
+ * examples are derived from these ones.
+ *
+ * @internal
+ */
+export const getInitialConfig = (project: Project, cwd: string): Record<string, unknown> => {
+  const getPaths = (basePath: string) => ({
+    [project.name]: [toRelativePath(basePath, NodePath.join(cwd, project.srcDir, "index.ts"))],
+    [`${project.name}/*`]: [toRelativePath(basePath, NodePath.join(cwd, project.srcDir, "*"))]
+  })
+  return {
+    $schema: "./node_modules/@effect/docgen/schema.json",
+    ...(project.srcDir === DEFAULT_SRC_DIR ? {} : { srcDir: project.srcDir }),
+    ...(project.isMapped ? {} : {
+      // the `paths` are resolved relative to the `baseUrl`, if any
+      parseCompilerOptions: Option.match(project.baseUrl, {
+        onNone: () => ({ paths: getPaths(cwd) }),
+        onSome: (baseUrl) => ({ baseUrl, paths: getPaths(NodePath.resolve(cwd, baseUrl)) })
+      })
+    })
+  }
+}
+
+const parseArgs = (
+  args: ReadonlyArray<string>
+): Effect.Effect<never, Config.ConfigError, boolean> =>
+  pipe(
+    args,
+    ReadonlyArray.findFirst((arg) => arg !== "--force"),
+    Option.match({
+      onNone: () => Effect.succeed(args.includes("--force")),
+      onSome: (arg) =>
+        Effect.fail(Config.ConfigError({ message: `Unknown command-line option '${arg}'` }))
+    })
+  )
+
+const PackageJsonSchema = Schema.struct({
+  name: Schema.string,
+  scripts: Schema.optional(Schema.record(Schema.string, Schema.string))
+})
+
+const TsConfigSchema = Schema.struct({
+  extends: Schema.optional(Schema.union(Schema.string, Schema.array(Schema.string))),
+  compilerOptions: Schema.optional(Schema.struct({
+    rootDir: Schema.optional(Schema.string),
+    baseUrl: Schema.optional(Schema.string),
+    paths: Schema.optional(Schema.record(Schema.string, Schema.array(Schema.string)))
+  }))
+})
+
+/**
+ * The compiler options read from the `tsconfig.json` extends chain, with the
+ * directories resolved relative to the file defining them.
+ */
+interface CompilerOptions {
+  readonly rootDir?: string
+  readonly baseUrl?: string
+  readonly paths?: Record<string, ReadonlyArray<string>>
+}
+
+const resolveTsConfigPath = (
+  path: string,
+  specifier: string,
+  fileSystem: FileSystem.FileSystem
+): Effect.Effect<never, Config.ConfigError | FileSystem.ReadFileError, string> => {
+  const withExtension = (path: string) => path.endsWith(".json") ? [path] : [path, `${path}.json`]
+  // relative and absolute paths point to a file, anything else to a package
+  const candidates = specifier.startsWith(".") || NodePath.isAbsolute(specifier)
+    ? Effect.succeed(withExtension(NodePath.resolve(NodePath.dirname(path), specifier)))
+    : Effect.sync(() =>
+      ReadonlyArray.filterMap(
+        specifier.endsWith(".json")
+          ? [specifier]
+          : [`${specifier}.json`, `${specifier}/${TSCONFIG_FILE_NAME}`],
+        (request) => Option.liftThrowable(() => createRequire(path).resolve(request))()
+      )
+    )
+  return candidates.pipe(
+    Effect.flatMap(Effect.findFirst((candidate) => fileSystem.pathExists(candidate))),
+    Effect.flatMap(Option.match({
+      onNone: () =>
+        Effect.fail(
+          Config.ConfigError({
+            message: `Unable to find '${specifier}' extended by '${path}'`
+          })
+        ),
+      onSome: Effect.succeed
+    }))
+  )
+}
+
+const noCompilerOptions: CompilerOptions = {}
+
+const resolveTsConfig = (
+  path: string,
+  chain: ReadonlyArray<string>,
+  fileSystem: FileSystem.FileSystem
+): Effect.Effect<never, Config.ConfigError | FileSystem.ReadFileError, CompilerOptions> =>
+  fileSystem.readFile(path).pipe(
+    Effect.flatMap((content) => {
+      const { config, error } = ts.parseConfigFileTextToJson(path, content)
+      return error === undefined
+        ? Config.parse(TsConfigSchema, config)
+        : Effect.fail(
+          Config.ConfigError({
+            message: `Unable to parse ${path}: ${
+              ts.flattenDiagnosticMessageText(error.messageText, "\n")
+            }`
+          })
+        )
+    }),
+    Effect.flatMap(({ compilerOptions = {}, extends: specifiers = [] }) =>
+      Effect.reduce(
+        typeof specifiers === "string" ? [specifiers] : specifiers,
+        noCompilerOptions,
+        (options, specifier) =>
+          resolveTsConfigPath(path, specifier, fileSystem).pipe(
+            Effect.flatMap((basePath) =>
+              chain.includes(basePath)
+                ? Effect.fail(
+                  Config.ConfigError({
+                    message: `Circular tsconfig extends: ${[...chain, basePath].join(" -> ")}`
+                  })
+                )
+                : resolveTsConfig(basePath, [...chain, basePath], fileSystem)
+            ),
+            Effect.map((base): CompilerOptions => ({ ...options, ...base }))
+          )
+      ).pipe(
+        // the options of the file override the ones it extends
+        Effect.map((options): CompilerOptions => {
+          const dir = NodePath.dirname(path)
+          const { baseUrl, paths, rootDir } = compilerOptions
+          return {
+            ...options,
+            ...(rootDir === undefined ? {} : { rootDir: NodePath.resolve(dir, rootDir) }),
+            ...(baseUrl === undefined ? {} : { baseUrl: NodePath.resolve(dir, baseUrl) }),
+            ...(paths === undefined ? {} : { paths })
+          }
+        })
+      )
+    )
+  )
+
+const readTsConfig = (path: string, fileSystem: FileSystem.FileSystem) =>
+  Effect.if(fileSystem.pathExists(path), {
+    onTrue: Effect.map(resolveTsConfig(path, [path], fileSystem), Option.some),
+    onFalse: Effect.succeed(Option.none())
+  })
+
+const getProject = (
+  name: string,
+  compilerOptions: Option.Option<CompilerOptions>,
+  cwd: string
+): Project => {
+  const srcDir = pipe(
+    compilerOptions,
+    Option.flatMap((options) => Option.fromNullable(options.rootDir)),
+    Option.map((rootDir) => NodePath.relative(cwd, rootDir)),
+    Option.filter((srcDir) => srcDir.length > 0),
+    Option.getOrElse(() => DEFAULT_SRC_DIR)
+  )
+  const isMapped = Option.exists(
+    compilerOptions,
+    ({ paths }) =>
+      paths !== undefined &&
+      Object.keys(paths).some((key) => key === name || key.startsWith(`${name}/`))
+  )
+  const baseUrl = pipe(
+    compilerOptions,
+    Option.flatMap((options) => Option.fromNullable(options.baseUrl)),
+    Option.map((baseUrl) => toRelativePath(cwd, baseUrl))
+  )
+  return { name, srcDir, isMapped, baseUrl }
+}
+
+/**
+ * Scaffolds the documentation of the project in the current working directory:
+ * writes a `docgen.json` file, whose `paths` are derived from the
+ * `package.json` and `tsconfig.json` files, and adds a `docs` script to the
+ * `package.json` file.
+ *
+ * Existing files and scripts are left untouched unless `--force` is passed.
+ *
+ * @category init
+ * @since 1.0.0
+ */
+export const init = (
+  args: ReadonlyArray<string>
+): Effect.Effect<
+  FileSystem.FileSystem | Process.Process,
+  | Config.ConfigError
+  | FileSystem.ReadFileError
+  | FileSystem.ParseJsonError
+  | FileSystem.WriteFileError,
+  void
+> =>
+  Effect.gen(function*(_) {
+    const force = yield* _(parseArgs(args))
+    const fileSystem = yield* _(FileSystem.FileSystem)
+    const process = yield* _(Process.Process)
+    const cwd = yield* _(process.cwd)
+
+    const configPath = NodePath.join(cwd, CONFIG_FILE_NAME)
+    if (!force && (yield* _(fileSystem.pathExists(configPath)))) {
+      return yield* _(
+        Effect.fail(
+          Config.ConfigError({
+            message: `${CONFIG_FILE_NAME} already exists, use --force to overwrite it`
+          })
+        )
+      )
+    }
+
+    const packageJsonPath = NodePath.join(cwd, PACKAGE_JSON_FILE_NAME)
+    // the other fields of the package.json file are preserved when writing it back
+    const content = yield* _(
+      Config.parseJsonFile(
+        Schema.record(Schema.string, Schema.unknown),
+        packageJsonPath,
+        fileSystem
+      )
+    )
+    const packageJson = yield* _(Config.parse(PackageJsonSchema, content))
+    const compilerOptions = yield* _(
+      readTsConfig(NodePath.join(cwd, TSCONFIG_FILE_NAME), fileSystem)
+    )
+
+    const config = getInitialConfig(getProject(packageJson.name, compilerOptions, cwd), cwd)
+    yield* _(fileSystem.writeFile(configPath, JSON.stringify(config, null, 2) + "\n"))
+    yield* _(Effect.logInfo(chalk.bold(`Created ${CONFIG_FILE_NAME}`)))
+
+    const scripts = packageJson.scripts ?? {}
+    if (!force && scripts.docs !== undefined) {
+      yield* _(
+        Effect.logInfo(
+          `Skipped the docs script, ${PACKAGE_JSON_FILE_NAME} already defines it: ${scripts.docs}`
+        )
+      )
+    } else {
+      const updated = { ...content, scripts: { ...scripts, docs: DOCS_SCRIPT } }
+      yield* _(fileSystem.writeFile(packageJsonPath, JSON.stringify(updated, null, 2) + "\n"))
+      yield* _(
+        Effect.logInfo(
+          chalk.bold(`Added the docs script to ${PACKAGE_JSON_FILE_NAME}: ${DOCS_SCRIPT}`)
+        )
+      )
+    }
+  })
@@ -1,7 +1,8 @@
 /**
  * @since 1.0.0
  */
-import { Option, Order, pipe, ReadonlyArray, ReadonlyRecord, String } from "effect"
+import { Option, Order, pipe, Predicate, ReadonlyArray, ReadonlyRecord, String } from "effect"
+import * as NodePath from "node:path"
 import * as Prettier from "prettier"
 import type * as Domain from "./Domain"
 
@@ -11,6 +12,7 @@ const toc = require("markdown-toc")
 type Printable =
   | Domain.Class
   | Domain.Constant
+  | Domain.Enum
   | Domain.Export
   | Domain.Function
   | Domain.Interface
@@ -33,10 +35,6 @@ const h1 = createHeader(1)
 
 const h2 = createHeader(2)
 
-const h3 = createHeader(3)
-
-const h4 = createHeader(4)
-
 const getSince: (v: Option.Option<string>) => string = Option.match({
   onNone: () => "",
   onSome: (v) => paragraph(`Added in v${v}`)
@@ -53,56 +51,222 @@ const getTitle = (s: string, deprecated: boolean, type?: string): string => {
   )
 }
 
+const MAX_HEADER_NESTING = 2
+
+/**
+ * Headers are capped at `h4`: deeper titles are qualified by the names of
+ * their parents (e.g. `A.B.C.D`), so that they, and their anchors, stay unique.
+ */
+const getHeader = (
+  parents: ReadonlyArray<string>,
+  name: string,
+  deprecated: boolean,
+  type?: string
+): string =>
+  createHeader(Math.min(parents.length, MAX_HEADER_NESTING) + 2)(
+    getHeaderTitle(parents, name, deprecated, type)
+  )
+
+const getHeaderTitle = (
+  parents: ReadonlyArray<string>,
+  name: string,
+  deprecated: boolean,
+  type?: string
+): string =>
+  getTitle(
+    parents.length > MAX_HEADER_NESTING ? [...parents, name].join(".") : name,
+    deprecated,
+    type
+  )
+
 const getDescription = (d: Option.Option<string>): string =>
   paragraph(Option.getOrElse(d, () => ""))
 
 const getSignature = (s: string): string => paragraph(bold("Signature")) + paragraph(fence("ts", s))
 
+// each call signature is printed in its own code block
 const getSignatures = (ss: ReadonlyArray<string>): string =>
-  paragraph(bold("Signature")) + paragraph(fence("ts", ss.join("\n")))
+  paragraph(bold("Signature")) + ss.map((s) => paragraph(fence("ts", s))).join("")
+
+// the signatures of a `dual` API are printed separately, labelled by their call style
+const getDualSignatures = (
+  ss: ReadonlyArray<string>,
+  callStyles: ReadonlyArray<Domain.CallStyle>
+): string =>
+  ReadonlyArray.zip(ss, callStyles)
+    .map(([s, callStyle]) =>
+      paragraph(bold(`Signature (${callStyle})`)) + paragraph(fence("ts", s))
+    )
+    .join("")
+
+const escapeTableCell = (s: string): string => s.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ")
+
+const getParameters = (ps: ReadonlyArray<Domain.Parameter>): string =>
+  ReadonlyArray.isEmptyReadonlyArray(ps) ?
+    "" :
+    paragraph(bold("Parameters")) +
+    paragraph(
+      [
+        "| Name | Description |",
+        "| ---- | ----------- |",
+        ...ps.map((p) =>
+          `| \`${p.name}\` | ${escapeTableCell(Option.getOrElse(p.description, () => ""))} |`
+        )
+      ].join("\n")
+    )
+
+// a type reference such as `Database` or `HttpError<string>` links to the
+// documentation of the type, if any
+const getEffectTypeMember = (references: ReadonlyArray<string>) => (member: string): string => {
+  const code = `\`${escapeTableCell(member)}\``
+  const match = /^([A-Za-z_$][\w$.]*)(<[^{}]*>)?$/.exec(member)
+  return match === null || !references.includes(member)
+    ? code
+    : `{@link ${match[1]} \\| ${code}}`
+}
+
+const getEffectTypeMembers = (
+  members: ReadonlyArray<string>,
+  references: ReadonlyArray<string>
+): string => members.map(getEffectTypeMember(references)).join(" \\| ")
+
+const getEffectType: (e: Option.Option<Domain.EffectType>) => string = Option.match({
+  onNone: () => "",
+  onSome: (e) =>
+    paragraph(
+      [
+        "| Requirements | Errors | Success |",
+        "| ------------ | ------ | ------- |",
+        `| ${getEffectTypeMembers(e.requirements, e.references)} | ${
+          getEffectTypeMembers(e.errors, e.references)
+        } | ${getEffectTypeMembers(e.success, e.references)} |`
+      ].join("\n")
+    )
+})
+
+// the JSON Schema is collapsed, since it's usually longer than the types
+const getJsonSchema: (s: Option.Option<string>) => string = Option.match({
+  onNone: () => "",
+  onSome: (s) =>
+    paragraph("<details>\n<summary>JSON Schema</summary>") +
+    paragraph(fence("json", s)) +
+    paragraph("</details>")
+})
+
+// the encoded and decoded types of a schema are printed instead of its
+// (usually huge) inferred type
+const getSchemaType = (s: Domain.SchemaType): string =>
+  paragraph(bold("From")) +
+  paragraph(fence("ts", s.from)) +
+  paragraph(bold("To")) +
+  paragraph(fence("ts", s.to)) +
+  getJsonSchema(s.jsonSchema)
+
+const getReturns: (r: Option.Option<string>) => string = Option.match({
+  onNone: () => "",
+  onSome: (r) => paragraph(bold("Returns")) + paragraph(r)
+})
+
+const getThrows = (ts: ReadonlyArray<string>): string =>
+  ReadonlyArray.isEmptyReadonlyArray(ts) ?
+    "" :
+    paragraph(bold("Throws")) + paragraph(ts.map((t) => `- ${t}`).join("\n"))
 
 const getExamples = (es: ReadonlyArray<string>): string =>
   es
     .map((code) => paragraph(bold("Example")) + paragraph(fence("ts", code)))
     .join("\n\n")
 
-const getStaticMethod = (m: Domain.Method): string =>
+// the `@since` tag of an overload is only printed if it differs from the one of
+// the function (or method) as a whole
+const getOverload = (since: Option.Option<string>) => (o: Domain.Overload): string =>
   paragraph(
-    h3(getTitle(m.name, m.deprecated, "(static method)")),
+    o.deprecated ? paragraph(bold("Deprecated")) : "",
+    getDescription(o.description),
+    getSignature(o.signature),
+    getEffectType(o.effect),
+    getParameters(o.parameters),
+    getReturns(o.returns),
+    getThrows(o.throws),
+    getExamples(o.examples),
+    Option.getEquivalence(String.Equivalence)(o.since, since) ? "" : getSince(o.since)
+  )
+
+const getCallable = (c: Domain.Function | Domain.Method): string =>
+  ReadonlyArray.isEmptyReadonlyArray(c.overloads) ?
+    ("callStyles" in c && ReadonlyArray.isNonEmptyReadonlyArray(c.callStyles) ?
+      getDualSignatures(c.signatures, c.callStyles) :
+      getSignatures(c.signatures)) +
+    getEffectType(c.effect) +
+    getParameters(c.parameters) + getReturns(c.returns) +
+    getThrows(c.throws) :
+    c.overloads.map(getOverload(c.since)).join("")
+
+const getStaticMethod = (m: Domain.Method, parents: ReadonlyArray<string>): string =>
+  paragraph(
+    getHeader(parents, m.name, m.deprecated, "(static method)"),
     getDescription(m.description),
-    getSignatures(m.signatures),
+    getCallable(m),
     getExamples(m.examples),
     getSince(m.since)
   )
 
-const getMethod = (m: Domain.Method): string =>
+const getMethod = (m: Domain.Method, parents: ReadonlyArray<string>): string =>
   paragraph(
-    h3(getTitle(m.name, m.deprecated, "(method)")),
+    getHeader(parents, m.name, m.deprecated, "(method)"),
     getDescription(m.description),
-    getSignatures(m.signatures),
+    getCallable(m),
     getExamples(m.examples),
     getSince(m.since)
   )
 
-const getProperty = (p: Domain.Property): string =>
+const getProperty = (p: Domain.Property, parents: ReadonlyArray<string>): string =>
   paragraph(
-    h3(getTitle(p.name, p.deprecated, "(property)")),
+    getHeader(parents, p.name, p.deprecated, "(property)"),
     getDescription(p.description),
     getSignature(p.signature),
     getExamples(p.examples),
     getSince(p.since)
   )
 
-const getStaticMethods = (methods: ReadonlyArray<Domain.Method>): string =>
-  ReadonlyArray.map(methods, (method) => getStaticMethod(method) + "\n\n").join("")
+const getEnumMember = (m: Domain.EnumMember, parents: ReadonlyArray<string>): string =>
+  paragraph(
+    getHeader(parents, m.name, m.deprecated, "(member)"),
+    getDescription(m.description),
+    getSignature(
+      Option.match(m.value, {
+        onNone: () => m.name,
+        onSome: (value) => `${m.name} = ${JSON.stringify(value)}`
+      })
+    ),
+    getExamples(m.examples),
+    getSince(m.since)
+  )
+
+const getEnumMembers = (
+  members: ReadonlyArray<Domain.EnumMember>,
+  parents: ReadonlyArray<string>
+): string =>
+  ReadonlyArray.map(members, (member) => getEnumMember(member, parents) + "\n\n").join("")
+
+const getStaticMethods = (
+  methods: ReadonlyArray<Domain.Method>,
+  parents: ReadonlyArray<string>
+): string =>
+  ReadonlyArray.map(methods, (method) => getStaticMethod(method, parents) + "\n\n").join("")
 
-const getMethods = (methods: ReadonlyArray<Domain.Method>): string =>
-  ReadonlyArray.map(methods, (method) => getMethod(method) + "\n\n").join("")
+const getMethods = (
+  methods: ReadonlyArray<Domain.Method>,
+  parents: ReadonlyArray<string>
+): string => ReadonlyArray.map(methods, (method) => getMethod(method, parents) + "\n\n").join("")
 
-const getProperties = (properties: ReadonlyArray<Domain.Property>): string =>
+const getProperties = (
+  properties: ReadonlyArray<Domain.Property>,
+  parents: ReadonlyArray<string>
+): string =>
   ReadonlyArray.map(
     properties,
-    (property) => getProperty(property) + "\n\n"
+    (property) => getProperty(property, parents) + "\n\n"
   ).join("")
 
 const getModuleDescription = (module: Domain.Module): string =>
@@ -113,42 +277,106 @@ const getModuleDescription = (module: Domain.Module): string =>
     getSince(module.since)
   )
 
-const getMeta = (title: string, order: number): string =>
+const getModuleLink = (from: Domain.Module, path: ReadonlyArray<string>): string =>
+  NodePath.posix.relative(
+    NodePath.posix.dirname(from.path.slice(1).join("/")),
+    path.slice(1).join("/")
+  ) + ".html"
+
+// only the first paragraph of a description fits in a list item
+const getSummary = (description: string): string =>
+  description.split(/\n\s*\n/)[0].replace(/\s*\n\s*/g, " ")
+
+const getReexport = (
+  module: Domain.Module,
+  modules: ReadonlyArray<Domain.Module>
+) =>
+(r: Domain.Reexport): string => {
+  const target = ReadonlyArray.findFirst(
+    modules,
+    (m) => m.path.join("/") === r.path.join("/")
+  )
+  const link = `[${getTitle(r.path.slice(1).join("/"), r.deprecated)}](${
+    getModuleLink(module, r.path)
+  })`
+  const namespace = Option.match(r.namespace, {
+    onNone: () => "",
+    onSome: (ns) => ` as \`${ns}\``
+  })
+  const description = pipe(
+    r.description,
+    Option.orElse(() => Option.flatMap(target, (m) => m.description)),
+    Option.match({
+      onNone: () => "",
+      onSome: (d) => `: ${getSummary(d)}`
+    })
+  )
+  return `- ${link}${namespace}${description}`
+}
+
+const getReexports = (
+  module: Domain.Module,
+  modules: ReadonlyArray<Domain.Module>
+): string =>
+  ReadonlyArray.isEmptyReadonlyArray(module.reexports)
+    ? ""
+    : paragraph(
+      h1("re-exports"),
+      module.reexports.map(getReexport(module, modules)).join("\n")
+    )
+
+// YAML plain scalars cannot start with an indicator character, e.g. `@scope/name`
+const toYamlScalar = (s: string): string => /^[\w./-][^:#]*$/.test(s) ? s : JSON.stringify(s)
+
+const getMeta = (title: string, order: number, parent: string): string =>
   paragraph(
     "---",
     `\n`,
-    `title: ${title}`,
+    `title: ${toYamlScalar(title)}`,
     `\n`,
     `nav_order: ${order}`,
     `\n`,
-    `parent: Modules`,
+    `parent: ${toYamlScalar(parent)}`,
     `\n`,
     "---"
   )
 
-const fromClass = (c: Domain.Class): string =>
+const fromClass = (c: Domain.Class, parents: ReadonlyArray<string>): string =>
   paragraph(
     paragraph(
-      h2(getTitle(c.name, c.deprecated, "(class)")),
+      getHeader(parents, c.name, c.deprecated, "(class)"),
       getDescription(c.description),
       getSignature(c.signature),
       getExamples(c.examples),
       getSince(c.since)
     ),
-    getStaticMethods(c.staticMethods),
-    getMethods(c.methods),
-    getProperties(c.properties)
+    getStaticMethods(c.staticMethods, [...parents, c.name]),
+    getMethods(c.methods, [...parents, c.name]),
+    getProperties(c.properties, [...parents, c.name])
   )
 
-const fromConstant = (c: Domain.Constant): string =>
+const fromConstant = (c: Domain.Constant, parents: ReadonlyArray<string>): string =>
   paragraph(
-    h2(getTitle(c.name, c.deprecated)),
+    getHeader(parents, c.name, c.deprecated),
     getDescription(c.description),
-    getSignature(c.signature),
+    Option.match(c.schema, { onNone: () => getSignature(c.signature), onSome: getSchemaType }),
+    getEffectType(c.effect),
     getExamples(c.examples),
     getSince(c.since)
   )
 
+const fromEnum = (e: Domain.Enum, parents: ReadonlyArray<string>): string =>
+  paragraph(
+    paragraph(
+      getHeader(parents, e.name, e.deprecated, "(enum)"),
+      getDescription(e.description),
+      getSignature(e.signature),
+      getExamples(e.examples),
+      getSince(e.since)
+    ),
+    getEnumMembers(e.members, [...parents, e.name])
+  )
+
 const fromExport = (e: Domain.Export): string =>
   paragraph(
     h2(getTitle(e.name, e.deprecated)),
@@ -158,80 +386,89 @@ const fromExport = (e: Domain.Export): string =>
     getSince(e.since)
   )
 
-const fromFunction = (f: Domain.Function): string =>
+const fromFunction = (f: Domain.Function, parents: ReadonlyArray<string>): string =>
   paragraph(
-    h2(getTitle(f.name, f.deprecated)),
+    getHeader(parents, f.name, f.deprecated),
     getDescription(f.description),
-    getSignatures(f.signatures),
+    getCallable(f),
     getExamples(f.examples),
     getSince(f.since)
   )
 
-const fromInterface = (i: Domain.Interface, indentation: number): string =>
+const fromInterface = (i: Domain.Interface, parents: ReadonlyArray<string>): string =>
   paragraph(
-    getHeaderByIndentation(indentation)(getTitle(i.name, i.deprecated, "(interface)")),
-    getDescription(i.description),
-    getSignature(i.signature),
-    getExamples(i.examples),
-    getSince(i.since)
+    paragraph(
+      getHeader(parents, i.name, i.deprecated, "(interface)"),
+      getDescription(i.description),
+      getSignature(i.signature),
+      getExamples(i.examples),
+      getSince(i.since)
+    ),
+    getMethods(i.methods, [...parents, i.name]),
+    getProperties(i.properties, [...parents, i.name])
   )
 
-const fromTypeAlias = (ta: Domain.TypeAlias, indentation: number): string =>
+const fromTypeAlias = (ta: Domain.TypeAlias, parents: ReadonlyArray<string>): string =>
   paragraph(
-    getHeaderByIndentation(indentation)(getTitle(ta.name, ta.deprecated, "(type alias)")),
+    getHeader(parents, ta.name, ta.deprecated, "(type alias)"),
     getDescription(ta.description),
     getSignature(ta.signature),
     getExamples(ta.examples),
     getSince(ta.since)
   )
 
-const getHeaderByIndentation = (indentation: number) => {
-  switch (indentation) {
-    case 0:
-      return h2
-    case 1:
-      return h3
-    case 2:
-      return h4
-  }
-  throw new Error(`Unsupported namespace nesting: ${indentation + 1}`)
-}
-
-const fromNamespace = (ns: Domain.Namespace, indentation: number): string =>
+const fromNamespace = (ns: Domain.Namespace, parents: ReadonlyArray<string>): string =>
   paragraph(
     paragraph(
-      getHeaderByIndentation(indentation)(getTitle(ns.name, ns.deprecated, "(namespace)")),
+      getHeader(parents, ns.name, ns.deprecated, "(namespace)"),
       getDescription(ns.description),
       getExamples(ns.examples),
       getSince(ns.since)
     ),
-    ReadonlyArray.map(ns.interfaces, (i) => fromInterface(i, indentation + 1) + "\n\n").join(""),
+    ReadonlyArray.map(ns.interfaces, (i) => fromInterface(i, [...parents, ns.name]) + "\n\n").join(
+      ""
+    ),
     ReadonlyArray.map(ns.typeAliases, (typeAlias) =>
-      fromTypeAlias(typeAlias, indentation + 1) + "\n\n").join(""),
-    ReadonlyArray.map(ns.namespaces, (namespace) =>
-      fromNamespace(namespace, indentation + 1) + "\n\n").join("")
+      fromTypeAlias(typeAlias, [...parents, ns.name]) + "\n\n").join(""),
+    ReadonlyArray.map(ns.classes, (c) =>
+      fromClass(c, [...parents, ns.name]) + "\n\n").join(""),
+    ReadonlyArray.map(ns.functions, (f) => fromFunction(f, [...parents, ns.name]) + "\n\n").join(
+      ""
+    ),
+    ReadonlyArray.map(ns.constants, (c) => fromConstant(c, [...parents, ns.name]) + "\n\n").join(
+      ""
+    ),
+    ReadonlyArray.map(ns.enums, (e) => fromEnum(e, [...parents, ns.name]) + "\n\n").join(""),
+    ReadonlyArray.map(
+      ns.namespaces,
+      (namespace) => fromNamespace(namespace, [...parents, ns.name]) + "\n\n"
+    ).join("")
   )
 
 /** @internal */
 export const fromPrintable = (p: Printable): string => {
   switch (p._tag) {
     case "Class":
-      return fromClass(p)
+      return fromClass(p, [])
     case "Constant":
-      return fromConstant(p)
+      return fromConstant(p, [])
+    case "Enum":
+      return fromEnum(p, [])
     case "Export":
       return fromExport(p)
     case "Function":
-      return fromFunction(p)
+      return fromFunction(p, [])
     case "Interface":
-      return fromInterface(p, 0)
+      return fromInterface(p, [])
     case "TypeAlias":
-      return fromTypeAlias(p, 0)
+      return fromTypeAlias(p, [])
     case "Namespace":
-      return fromNamespace(p, 0)
+      return fromNamespace(p, [])
   }
 }
 
+const DEFAULT_CATEGORY = "utils"
+
 const getPrintables = (module: Domain.Module): ReadonlyArray<Printable> =>
   ReadonlyArray.flatten<Printable>([
     module.classes,
@@ -240,21 +477,14 @@ const getPrintables = (module: Domain.Module): ReadonlyArray<Printable> =>
     module.functions,
     module.interfaces,
     module.typeAliases,
-    module.namespaces
+    module.namespaces,
+    module.enums
   ])
 
-/**
- * @category printers
- * @since 1.0.0
- */
-export const printModule = (module: Domain.Module, order: number): string => {
-  const DEFAULT_CATEGORY = "utils"
-
-  const header = getMeta(module.path.slice(1).join("/"), order)
-
-  const description = paragraph(getModuleDescription(module))
-
-  const content = pipe(
+const getCategories = (
+  module: Domain.Module
+): ReadonlyArray<readonly [string, ReadonlyArray<Printable>]> =>
+  pipe(
     getPrintables(module),
     ReadonlyArray.groupBy(({ category }) => Option.getOrElse(category, () => DEFAULT_CATEGORY)),
     ReadonlyRecord.toEntries,
@@ -263,21 +493,324 @@ export const printModule = (module: Domain.Module, order: number): string => {
     ),
     ReadonlyArray.map(([category, printables]) =>
       [
-        h1(category),
-        ...pipe(
+        category,
+        ReadonlyArray.sort(
           printables,
-          ReadonlyArray.sort(
-            Order.mapInput(
-              String.Order,
-              (printable: Printable) => printable.name
+          Order.mapInput(String.Order, (printable: Printable) => printable.name)
+        )
+      ] as const
+    )
+  )
+
+/**
+ * A documented symbol, along with the title of its header and the texts of
+ * its documentation which may contain `{@link}` references.
+ */
+interface Entry {
+  readonly name: string
+  readonly title: string
+  readonly texts: ReadonlyArray<string>
+}
+
+const createEntry = (
+  parents: ReadonlyArray<string>,
+  d: Domain.Documentable,
+  texts: ReadonlyArray<string>,
+  type?: string
+): Entry => ({
+  name: [...parents, d.name].join("."),
+  title: getHeaderTitle(parents, d.name, d.deprecated, type),
+  texts: [...Option.toArray(d.description), ...texts]
+})
+
+const getCallableTexts = (
+  c: Domain.Function | Domain.Method | Domain.Overload
+): ReadonlyArray<string> => [
+  ...c.parameters.flatMap((p) => Option.toArray(p.description)),
+  ...Option.toArray(c.returns),
+  ...c.throws,
+  ...("overloads" in c ?
+    c.overloads.flatMap((o) => [...Option.toArray(o.description), ...getCallableTexts(o)]) :
+    [])
+]
+
+const getMemberEntries = (
+  members: ReadonlyArray<Domain.Method | Domain.Property | Domain.EnumMember>,
+  parents: ReadonlyArray<string>,
+  type: string
+): ReadonlyArray<Entry> =>
+  members.map((m) => createEntry(parents, m, "signatures" in m ? getCallableTexts(m) : [], type))
+
+// the entries are listed in the same order as their headers are printed
+const getEntries = (p: Printable, parents: ReadonlyArray<string>): ReadonlyArray<Entry> => {
+  switch (p._tag) {
+    case "Class":
+      return [
+        createEntry(parents, p, [], "(class)"),
+        ...getMemberEntries(p.staticMethods, [...parents, p.name], "(static method)"),
+        ...getMemberEntries(p.methods, [...parents, p.name], "(method)"),
+        ...getMemberEntries(p.properties, [...parents, p.name], "(property)")
+      ]
+    case "Constant":
+    case "Export":
+      return [createEntry(parents, p, [])]
+    case "Enum":
+      return [
+        createEntry(parents, p, [], "(enum)"),
+        ...getMemberEntries(p.members, [...parents, p.name], "(member)")
+      ]
+    case "Function":
+      return [createEntry(parents, p, getCallableTexts(p))]
+    case "Interface":
+      return [
+        createEntry(parents, p, [], "(interface)"),
+        ...getMemberEntries(p.methods, [...parents, p.name], "(method)"),
+        ...getMemberEntries(p.properties, [...parents, p.name], "(property)")
+      ]
+    case "TypeAlias":
+      return [createEntry(parents, p, [], "(type alias)")]
+    case "Namespace":
+      return [
+        createEntry(parents, p, [], "(namespace)"),
+        ...ReadonlyArray.flatten<Printable>([
+          p.interfaces,
+          p.typeAliases,
+          p.classes,
+          p.functions,
+          p.constants,
+          p.enums,
+          p.namespaces
+        ]).flatMap((printable) => getEntries(printable, [...parents, p.name]))
+      ]
+  }
+}
+
+/**
+ * Computes the anchors of the headers of the symbols of a module the same way
+ * as the table of contents does, i.e. duplicated headers get a numeric suffix.
+ */
+const getHeaderAnchors = (
+  module: Domain.Module
+): ReadonlyArray<readonly [name: string, title: string, anchor: string]> => {
+  const headers: ReadonlyArray<readonly [Option.Option<string>, string]> = [
+    ...(ReadonlyArray.isEmptyReadonlyArray(module.reexports) ?
+      [] :
+      [[Option.none(), "re-exports"] as const]),
+    ...getCategories(module).flatMap(([category, printables]) => [
+      [Option.none(), category] as const,
+      ...printables.flatMap((p) => getEntries(p, [])).map((e) =>
+        [Option.some(e.name), e.title] as const
+      )
+    ])
+  ]
+  const counts = new Map<string, number>()
+  const anchors: Array<readonly [string, string, string]> = []
+  for (const [name, title] of headers) {
+    const slug = toc.slugify(title)
+    const count = counts.get(slug) ?? 0
+    counts.set(slug, count + 1)
+    if (Option.isSome(name)) {
+      anchors.push([name.value, title, count === 0 ? slug : `${slug}-${count}`])
+    }
+  }
+  return anchors
+}
+
+// symbols sharing the same name (e.g. an interface and its tag) are linked to
+// the first one
+const getAnchors = (module: Domain.Module): ReadonlyMap<string, string> => {
+  const anchors = new Map<string, string>()
+  for (const [name, , anchor] of getHeaderAnchors(module)) {
+    if (!anchors.has(name)) {
+      anchors.set(name, anchor)
+    }
+  }
+  return anchors
+}
+
+interface SymbolIndex {
+  readonly modules: ReadonlyArray<Domain.Module>
+  readonly anchors: ReadonlyMap<string, ReadonlyMap<string, string>>
+}
+
+const isSameModule = (a: Domain.Module, b: Domain.Module): boolean =>
+  a.path.join("/") === b.path.join("/")
+
+const symbolIndexes = new WeakMap<ReadonlyArray<Domain.Module>, SymbolIndex>()
+
+const getSymbolIndex = (modules: ReadonlyArray<Domain.Module>): SymbolIndex => {
+  const cached = symbolIndexes.get(modules)
+  if (cached !== undefined) {
+    return cached
+  }
+  const index: SymbolIndex = {
+    modules,
+    anchors: new Map(modules.map((module) => [module.path.join("/"), getAnchors(module)]))
+  }
+  symbolIndexes.set(modules, index)
+  return index
+}
+
+const getAnchor = (index: SymbolIndex, module: Domain.Module, name: string) =>
+  Option.fromNullable(index.anchors.get(module.path.join("/"))?.get(name))
+
+const findUnique = <A>(as: ReadonlyArray<A>): Option.Option<A> =>
+  as.length === 1 ? Option.some(as[0]) : Option.none()
+
+/**
+ * Resolves the target of a link, in this order:
+ *
+ * - a symbol of the `from` module, e.g. `map` or `Option.map` (a member)
+ * - a module, or one of its symbols, e.g. `Option` or `Option.map`
+ * - a symbol of another module, provided that its name is unique
+ */
+const resolveLink = (
+  index: SymbolIndex,
+  from: Domain.Module
+) =>
+(target: string): Option.Option<string> => {
+  const getHref = (module: Domain.Module, anchor: Option.Option<string>) =>
+    isSameModule(module, from) && Option.isSome(anchor) ?
+      `#${anchor.value}` :
+      getModuleLink(from, module.path) + Option.match(anchor, {
+        onNone: () => "",
+        onSome: (a) => `#${a}`
+      })
+  const [head, ...tail] = target.split(".")
+  return pipe(
+    getAnchor(index, from, target),
+    Option.map((anchor) => getHref(from, Option.some(anchor))),
+    Option.orElse(() =>
+      pipe(
+        findUnique(index.modules.filter((m) => m.name === head)),
+        Option.flatMap((module) =>
+          ReadonlyArray.isEmptyArray(tail) ?
+            Option.some(getHref(module, Option.none())) :
+            Option.map(
+              getAnchor(index, module, tail.join(".")),
+              (anchor) => getHref(module, Option.some(anchor))
             )
-          ),
-          ReadonlyArray.map(fromPrintable)
         )
-      ].join("\n")
+      )
+    ),
+    Option.orElse(() =>
+      pipe(
+        findUnique(index.modules.filter((m) => Option.isSome(getAnchor(index, m, target)))),
+        Option.flatMap((module) =>
+          Option.map(getAnchor(index, module, target), (anchor) =>
+            getHref(module, Option.some(anchor)))
+        )
+      )
+    )
+  )
+}
+
+// the `|` of `{@link X | label}` may have been escaped in a table cell
+const LINK_REGEX = /\{@link\s+([^\s|}]+)(?:\s*\\?\|\s*|\s+)?([^}]*)\}/g
+
+const isURL = (target: string): boolean => /^[a-z]+:\/\//i.test(target)
+
+const FENCE_REGEX = /(```[\s\S]*?```)/
+
+const getLinkTargets = (text: string): ReadonlyArray<string> =>
+  text
+    .split(FENCE_REGEX)
+    .filter((_, i) => i % 2 === 0)
+    .flatMap((chunk) => Array.from(chunk.matchAll(LINK_REGEX), ([, target]) => target))
+
+// code blocks (e.g. signatures and examples) are left untouched
+const replaceLinks = (index: SymbolIndex, from: Domain.Module) => (s: string): string =>
+  s
+    .split(FENCE_REGEX)
+    .map((chunk, i) =>
+      i % 2 === 1 ? chunk : chunk.replace(LINK_REGEX, (_, target: string, label: string) => {
+        const text = label.trim() === "" ? target : label.trim()
+        return isURL(target) ?
+          `[${text}](${target})` :
+          Option.match(resolveLink(index, from)(target), {
+            onNone: () => text,
+            onSome: (href) => `[${text}](${href})`
+          })
+      })
+    )
+    .join("")
+
+/**
+ * @category model
+ * @since 1.0.0
+ */
+export interface UnresolvedLink {
+  readonly path: ReadonlyArray<string>
+  /**
+   * The name of the documented symbol, e.g. `map` or `Option.map`.
+   */
+  readonly name: string
+  readonly target: string
+}
+
+/**
+ * Returns the `{@link}` references of the documentation of `modules` which
+ * don't resolve to any of their modules or documented symbols.
+ *
+ * @category links
+ * @since 1.0.0
+ */
+export const getUnresolvedLinks = (
+  modules: ReadonlyArray<Domain.Module>
+): ReadonlyArray<UnresolvedLink> => {
+  const index = getSymbolIndex(modules)
+  return modules.flatMap((module) => {
+    const entries: ReadonlyArray<Entry> = [
+      {
+        name: module.name,
+        title: module.name,
+        texts: [module.description, ...module.reexports.map((r) => r.description)].flatMap(
+          Option.toArray
+        )
+      },
+      ...getPrintables(module).flatMap((p) => getEntries(p, []))
+    ]
+    return entries.flatMap((entry) =>
+      entry.texts
+        .flatMap(getLinkTargets)
+        .filter((target) => !isURL(target) && Option.isNone(resolveLink(index, module)(target)))
+        .map((target) => ({ path: module.path, name: entry.name, target }))
     )
+  })
+}
+
+/**
+ * Prints the documentation page of a module. The page is nested under the
+ * page titled `parent` in the site navigation.
+ *
+ * The re-exported modules are linked along with their descriptions, looked up
+ * in `modules`, which are also the targets of the `{@link}` references.
+ *
+ * @category printers
+ * @since 1.0.0
+ */
+export const printModule = (
+  module: Domain.Module,
+  order: number,
+  parent = "Modules",
+  modules: ReadonlyArray<Domain.Module> = []
+): string => {
+  const index = getSymbolIndex(
+    modules.some((m) => isSameModule(m, module)) ? modules : [module, ...modules]
+  )
+
+  const header = getMeta(module.path.slice(1).join("/"), order, parent)
+
+  const description = replaceLinks(index, module)(paragraph(getModuleDescription(module)))
+
+  const reexports = getReexports(module, modules)
+
+  const printables = getCategories(module).map(([category, printables]) =>
+    [h1(category), ...printables.map(fromPrintable)].join("\n")
   ).join("\n")
 
+  const content = replaceLinks(index, module)(reexports + printables)
+
   const tableOfContents = (content: string) =>
     "<h2 class=\"text-delta\">Table of contents</h2>\n\n"
     + toc(content).content
@@ -295,6 +828,285 @@ export const printModule = (module: Domain.Module, order: number): string => {
   )
 }
 
+// -------------------------------------------------------------------------------------
+// services
+// -------------------------------------------------------------------------------------
+
+/**
+ * A service, along with the `Context.Tag` constants identifying it and the
+ * layers providing it.
+ */
+interface Service {
+  readonly name: string
+  readonly tags: ReadonlyArray<string>
+  readonly layers: ReadonlyArray<readonly [string, ReadonlyArray<string>]>
+}
+
+type Container = Pick<
+  Domain.Namespace,
+  "classes" | "constants" | "functions" | "interfaces" | "namespaces"
+>
+
+// the symbols of a module, including the ones of its namespaces, along with
+// the names of their parents
+const getNested = <A>(
+  parents: ReadonlyArray<string>,
+  container: Container,
+  f: (container: Container) => ReadonlyArray<A>
+): ReadonlyArray<readonly [ReadonlyArray<string>, A]> => [
+  ...f(container).map((a) => [parents, a] as const),
+  ...container.namespaces.flatMap((ns) => getNested([...parents, ns.name], ns, f))
+]
+
+// the catalog pages are printed next to the pages of the modules
+const getSymbolLink = (module: Domain.Module) => {
+  const anchors = getHeaderAnchors(module)
+  return (name: string, title: string): string => {
+    const anchor = pipe(
+      ReadonlyArray.findFirst(anchors, ([n, t]) => n === name && t === title),
+      Option.match({ onNone: () => "", onSome: ([, , a]) => `#${a}` })
+    )
+    return `[\`${name}\`](${module.path.slice(1).join("/")}.html${anchor})`
+  }
+}
+
+const isNever = (type: string): boolean => type === "never"
+
+const getServices = (modules: ReadonlyArray<Domain.Module>): ReadonlyArray<Service> => {
+  const services = new Map<
+    string,
+    { tags: Array<string>; layers: Array<[string, ReadonlyArray<string>]> }
+  >()
+  const getService = (name: string) => {
+    const service = services.get(name) ?? { tags: [], layers: [] }
+    services.set(name, service)
+    return service
+  }
+  for (const module of modules) {
+    const getLink = getSymbolLink(module)
+    for (const [parents, c] of getNested([], module, (container) => container.constants)) {
+      const link = getLink(
+        [...parents, c.name].join("."),
+        getHeaderTitle(parents, c.name, c.deprecated)
+      )
+      if (Option.isSome(c.service)) {
+        getService(c.service.value).tags.push(link)
+      }
+      if (Option.isSome(c.effect) && c.effect.value.name === "Layer") {
+        const requirements = c.effect.value.requirements.filter(Predicate.not(isNever))
+        for (const provided of c.effect.value.success.filter(Predicate.not(isNever))) {
+          getService(provided).layers.push([link, requirements])
+        }
+      }
+    }
+  }
+  return ReadonlyArray.sort(
+    Array.from(services, ([name, { layers, tags }]): Service => ({ name, tags, layers })),
+    Order.mapInput(String.Order, (service: Service) => service.name)
+  )
+}
+
+const fromService = (names: ReadonlySet<string>) => (service: Service): string => {
+  const getRequirement = (name: string) =>
+    names.has(name) ? `[\`${name}\`](#${toc.slugify(name)})` : `\`${escapeTableCell(name)}\``
+  return paragraph(
+    h2(service.name),
+    ReadonlyArray.isEmptyReadonlyArray(service.tags) ?
+      "" :
+      paragraph(`${bold("Tag")}: ${service.tags.join(", ")}`),
+    ReadonlyArray.isEmptyReadonlyArray(service.layers) ?
+      paragraph("No layer provides this service.") :
+      paragraph(
+        [
+          "| Layer | Requires |",
+          "| ----- | -------- |",
+          ...service.layers.map(([layer, requirements]) =>
+            `| ${layer} | ${requirements.map(getRequirement).join(", ")} |`
+          )
+        ].join("\n")
+      )
+  )
+}
+
+/**
+ * Prints the catalog of the services (i.e. the `Context.Tag` constants) of
+ * `modules`, listing the layers providing each of them and the services these
+ * layers require in turn. The page is printed next to the pages of the
+ * modules, and nested under the page titled `parent`.
+ *
+ * Returns `None` if `modules` don't define any service.
+ *
+ * @category printers
+ * @since 1.0.0
+ */
+export const printServices = (
+  modules: ReadonlyArray<Domain.Module>,
+  order: number,
+  parent = "Modules"
+): Option.Option<string> => {
+  const services = getServices(modules)
+  if (ReadonlyArray.isEmptyReadonlyArray(services)) {
+    return Option.none()
+  }
+  const names = new Set(services.map((service) => service.name))
+  const content = services.map(fromService(names)).join("")
+  return Option.some(prettify(
+    [
+      getMeta("Services", order, parent),
+      paragraph(
+        h2("Services overview"),
+        paragraph("The services identified by a `Context.Tag`, and the layers providing them.")
+      ),
+      "---\n",
+      "<h2 class=\"text-delta\">Table of contents</h2>\n\n" + toc(content).content + "\n\n",
+      "---\n",
+      content
+    ].join("\n")
+  ))
+}
+
+// -------------------------------------------------------------------------------------
+
+/**
+ * A tagged error, along with the APIs whose error channel includes it.
+ */
+interface TaggedError {
+  readonly name: string
+  readonly link: string
+  readonly error: Domain.TaggedError
+  readonly failedBy: ReadonlyArray<string>
+}
+
+/**
+ * A symbol whose `Effect`, `Stream` or `Layer` type lists some errors declared
+ * by interfaces.
+ */
+interface Fallible {
+  readonly link: string
+  readonly errorDeclarations: ReadonlyArray<string>
+}
+
+const getEffectErrors = (effect: Option.Option<Domain.EffectType>): ReadonlyArray<string> =>
+  Option.match(effect, {
+    onNone: () => [],
+    onSome: (e) => e.errorDeclarations
+  })
+
+const getCallableErrors = (c: Domain.Function | Domain.Method): ReadonlyArray<string> =>
+  ReadonlyArray.dedupe([
+    ...getEffectErrors(c.effect),
+    ...c.overloads.flatMap((o) => getEffectErrors(o.effect))
+  ])
+
+const getFallibles = (module: Domain.Module): ReadonlyArray<Fallible> => {
+  const getLink = getSymbolLink(module)
+  const fallible = (
+    parents: ReadonlyArray<string>,
+    d: Domain.Documentable,
+    errorDeclarations: ReadonlyArray<string>,
+    type?: string
+  ): Fallible => ({
+    link: getLink(
+      [...parents, d.name].join("."),
+      getHeaderTitle(parents, d.name, d.deprecated, type)
+    ),
+    errorDeclarations
+  })
+  const fromMethods = (
+    parents: ReadonlyArray<string>,
+    methods: ReadonlyArray<Domain.Method>,
+    type: string
+  ): ReadonlyArray<Fallible> => methods.map((m) => fallible(parents, m, getCallableErrors(m), type))
+  return getNested([], module, (container) => [container])
+    .flatMap(([parents, container]) => [
+      ...container.functions.map((f) => fallible(parents, f, getCallableErrors(f))),
+      ...container.constants.map((c) => fallible(parents, c, getEffectErrors(c.effect))),
+      ...container.classes.flatMap((c) => [
+        ...fromMethods([...parents, c.name], c.staticMethods, "(static method)"),
+        ...fromMethods([...parents, c.name], c.methods, "(method)")
+      ]),
+      ...container.interfaces.flatMap((i) =>
+        fromMethods([...parents, i.name], i.methods, "(method)")
+      )
+    ])
+    .filter((f) => ReadonlyArray.isNonEmptyReadonlyArray(f.errorDeclarations))
+}
+
+const getTaggedErrors = (modules: ReadonlyArray<Domain.Module>): ReadonlyArray<TaggedError> => {
+  const fallibles = modules.flatMap(getFallibles)
+  return ReadonlyArray.sort(
+    modules.flatMap((module) => {
+      const getLink = getSymbolLink(module)
+      return getNested([], module, (container) => container.interfaces).flatMap(([parents, i]) =>
+        Option.match(i.error, {
+          onNone: () => [],
+          onSome: (error): ReadonlyArray<TaggedError> => [{
+            name: i.name,
+            link: getLink(
+              [...parents, i.name].join("."),
+              getHeaderTitle(parents, i.name, i.deprecated, "(interface)")
+            ),
+            error,
+            failedBy: fallibles
+              .filter((fallible) => fallible.errorDeclarations.includes(error.declaration))
+              .map((fallible) => fallible.link)
+          }]
+        })
+      )
+    }),
+    Order.mapInput(String.Order, (error: TaggedError) => error.name)
+  )
+}
+
+const fromTaggedError = (error: TaggedError): string =>
+  paragraph(
+    h2(error.name),
+    paragraph(`${bold("Interface")}: ${error.link}`),
+    paragraph(`${bold("Tag")}: \`${JSON.stringify(error.error.tag)}\``),
+    ReadonlyArray.isEmptyReadonlyArray(error.error.fields) ?
+      "" :
+      paragraph(bold("Fields")) + paragraph(fence("ts", error.error.fields.join("\n"))),
+    ReadonlyArray.isEmptyReadonlyArray(error.failedBy) ?
+      paragraph("No documented API fails with this error.") :
+      paragraph(`${bold("Failed by")}: ${error.failedBy.join(", ")}`)
+  )
+
+/**
+ * Prints the catalog of the tagged errors (i.e. the interfaces extending
+ * `Data.Case` with a `_tag` property) of `modules`, listing the fields of each
+ * of them and the APIs whose error channel includes it. The page is printed
+ * next to the pages of the modules, and nested under the page titled `parent`.
+ *
+ * Returns `None` if `modules` don't define any tagged error.
+ *
+ * @category printers
+ * @since 1.0.0
+ */
+export const printErrors = (
+  modules: ReadonlyArray<Domain.Module>,
+  order: number,
+  parent = "Modules"
+): Option.Option<string> => {
+  const errors = getTaggedErrors(modules)
+  if (ReadonlyArray.isEmptyReadonlyArray(errors)) {
+    return Option.none()
+  }
+  const content = errors.map(fromTaggedError).join("")
+  return Option.some(prettify(
+    [
+      getMeta("Errors", order, parent),
+      paragraph(
+        h2("Errors overview"),
+        paragraph("The tagged errors, and the APIs which can fail with them.")
+      ),
+      "---\n",
+      "<h2 class=\"text-delta\">Table of contents</h2>\n\n" + toc(content).content + "\n\n",
+      "---\n",
+      content
+    ].join("\n")
+  ))
+}
+
 const defaultPrettierOptions: Prettier.Options = {
   parser: "markdown",
   semi: false,
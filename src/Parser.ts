@@ -1,11 +1,13 @@
 /**
  * @since 1.0.0
  */
+import * as Schema from "@effect/schema/Schema"
 import chalk from "chalk"
 import * as doctrine from "doctrine"
 import {
   Context,
   Effect,
+  Equivalence,
   Option,
   Order,
   pipe,
@@ -15,16 +17,29 @@ import {
   String
 } from "effect"
 import { flow } from "effect/Function"
+import { minimatch } from "minimatch"
 import * as NodePath from "node:path"
+import * as Prettier from "prettier"
 import * as ast from "ts-morph"
 import * as Config from "./Config"
 import * as Domain from "./Domain"
-import type * as FileSystem from "./FileSystem"
+import * as FileSystem from "./FileSystem"
+import * as Process from "./Process"
 
 /** @internal */
 export interface Source {
   readonly path: ReadonlyArray.NonEmptyReadonlyArray<string>
   readonly sourceFile: ast.SourceFile
+  /**
+   * The declaration file emitted for `sourceFile`, when `useDeclarationEmit`
+   * is enabled.
+   */
+  readonly declarationFile: Option.Option<ast.SourceFile>
+  /**
+   * The names of the namespaces enclosing the declarations being parsed, used
+   * to qualify their names in the errors.
+   */
+  readonly namespaces: ReadonlyArray<string>
 }
 
 /** @internal */
@@ -79,6 +94,102 @@ const isNonEmptyString = (s: string) => s.length > 0
  */
 export const stripImportTypes = (s: string): string => s.replace(/import\("((?!").)*"\)./g, "")
 
+// -------------------------------------------------------------------------------------
+// declarations
+// -------------------------------------------------------------------------------------
+
+// the names of the namespaces enclosing a node, outermost first
+const getNamespacePath = (node: ast.Node): ReadonlyArray<string> =>
+  node.getAncestors().filter(ast.Node.isModuleDeclaration).map((md) => md.getName()).reverse()
+
+/**
+ * Looks up the counterpart of a declaration in the emitted declaration file,
+ * i.e. in the same (nested) namespace, if `useDeclarationEmit` is enabled.
+ */
+const getDeclaration = <A>(
+  node: ast.Node,
+  f: (container: ast.StatementedNode) => Option.Option<A>
+): Effect.Effect<Source, never, Option.Option<A>> =>
+  Effect.map(Source, (source) =>
+    pipe(
+      source.declarationFile,
+      Option.flatMap((declarationFile) =>
+        getNamespacePath(node).reduce(
+          (container: Option.Option<ast.StatementedNode>, name) =>
+            Option.flatMap(container, (c) => Option.fromNullable(c.getModule(name))),
+          Option.some(declarationFile)
+        )
+      ),
+      Option.flatMap(f)
+    ))
+
+// e.g. `function f(): void;` (in a namespace) becomes `export declare function f(): void`
+const toDeclarationSignature = (text: string): string =>
+  text.replace(/^(export\s+)?(declare\s+)?/, "export declare ").replace(/;$/, "")
+
+const getMemberDeclarationSignature = (node: ast.Node): string => node.getText().replace(/;$/, "")
+
+const getVariableDeclarationSignature = (vd: ast.VariableDeclaration, name: string): string =>
+  `export declare const ${name}${vd.getText().substring(vd.getName().length)}`
+
+const getConstantDeclarationSignature = (node: ast.Node, name: string, localName = name) =>
+  getDeclaration(node, (container) =>
+    Option.map(
+      Option.fromNullable(container.getVariableDeclaration(localName)),
+      (vd) => getVariableDeclarationSignature(vd, name)
+    ))
+
+// the type of an inferred `dual` API is emitted as an intersection of function
+// types, e.g. `((that: number) => (self: number) => number) & ((self: number, that: number) => number)`
+const getDeclarationCallSignatures = (
+  vd: ast.VariableDeclaration
+): Option.Option<ReadonlyArray<string>> =>
+  pipe(
+    getCallSignatureDeclarations(vd),
+    Option.map(ReadonlyArray.map(getCallSignatureDeclarationText)),
+    Option.orElse(() =>
+      pipe(
+        Option.fromNullable(vd.getTypeNode()),
+        Option.filter(ast.Node.isIntersectionTypeNode),
+        Option.map((itn) =>
+          itn.getTypeNodes().map((tn) =>
+            ast.Node.isParenthesizedTypeNode(tn) ? tn.getTypeNode() : tn
+          )
+        ),
+        Option.filter((tns) => tns.every(ast.Node.isFunctionTypeNode)),
+        Option.map(ReadonlyArray.map((tn) => tn.getText()))
+      )
+    )
+  )
+
+const getConstantDeclarationCallSignatures = (node: ast.Node, name: string) =>
+  getDeclaration(node, (container) =>
+    pipe(
+      Option.fromNullable(container.getVariableDeclaration(name)),
+      Option.flatMap(getDeclarationCallSignatures),
+      Option.map(ReadonlyArray.map((signature) => `export declare const ${name}: ${signature}`))
+    ))
+
+const getClassDeclaration = (node: ast.Node, name: string) =>
+  getDeclaration(node, (container) => Option.fromNullable(container.getClass(name)))
+
+// the members of a class are looked up in the declaration of their class
+const getMemberDeclaration = <A>(
+  member: ast.ClassMemberTypes,
+  f: (declaration: ast.ClassDeclaration) => Option.Option<A>
+): Effect.Effect<Source, never, Option.Option<A>> => {
+  const parent = member.getParent()
+  return ast.Node.isClassDeclaration(parent)
+    ? pipe(
+      Option.fromNullable(parent.getName()),
+      Option.match({
+        onNone: () => Effect.succeed(Option.none()),
+        onSome: (name) => Effect.map(getClassDeclaration(parent, name), Option.flatMap(f))
+      })
+    )
+    : Effect.succeed(Option.none())
+}
+
 const getJSDocText: (jsdocs: ReadonlyArray<ast.JSDoc>) => string = ReadonlyArray.matchRight({
   onEmpty: () => "",
   onNonEmpty: (_, last) => last.getText()
@@ -93,6 +204,27 @@ const hasIgnoreTag = hasTag("ignore")
 
 const shouldIgnore: Predicate.Predicate<Comment> = some([hasInternalTag, hasIgnoreTag])
 
+// the members of an ambient namespace (`declare namespace`) are implicitly
+// exported, i.e. they're exported by the namespace without an `export` keyword
+const isExported = (node: ast.ExportableNode & ast.Node): boolean => {
+  if (node.isExported()) {
+    return true
+  }
+  const exports = pipe(
+    Option.fromNullable(node.getParentIfKind(ast.SyntaxKind.ModuleBlock)),
+    Option.flatMapNullable((block) => block.getParentIfKind(ast.SyntaxKind.ModuleDeclaration)),
+    Option.flatMapNullable((namespace) => namespace.getSymbol()),
+    Option.match({
+      onNone: (): ReadonlyArray<ast.ts.Symbol> => [],
+      onSome: (symbol) => symbol.getExports().map((symbol) => symbol.compilerSymbol)
+    })
+  )
+  const symbols = ast.Node.isVariableStatement(node)
+    ? node.getDeclarations().map((vd) => vd.getSymbol())
+    : [node.getSymbol()]
+  return symbols.some((symbol) => symbol !== undefined && exports.includes(symbol.compilerSymbol))
+}
+
 const isVariableDeclarationList = (
   u: ast.VariableDeclarationList | ast.CatchClause
 ): u is ast.VariableDeclarationList => u.getKind() === ast.ts.SyntaxKind.VariableDeclarationList
@@ -105,25 +237,28 @@ const isVariableStatement = (
     | ast.ForInStatement
 ): u is ast.VariableStatement => u.getKind() === ast.ts.SyntaxKind.VariableStatement
 
+const getQualifiedName = (source: Source, name: string): string =>
+  source.path.join("/") + "#" + [...source.namespaces, name].join(".")
+
 const getMissingError = (
   what: string,
-  path: ReadonlyArray<string>,
+  source: Source,
   name: string
 ): string =>
   `Missing ${chalk.bold(what)} in ${
     chalk.bold(
-      path.join("/") + "#" + name
+      getQualifiedName(source, name)
     )
   } documentation`
 
 const getMissingTagError = (
   tag: string,
-  path: ReadonlyArray<string>,
+  source: Source,
   name: string
 ): string =>
   `Missing ${chalk.bold(tag)} tag in ${
     chalk.bold(
-      path.join("/") + "#" + name
+      getQualifiedName(source, name)
     )
   } documentation`
 
@@ -138,7 +273,7 @@ const getSinceTag = (name: string, comment: Comment) =>
         Effect.asSome,
         Effect.catchAll(() =>
           config.enforceVersion
-            ? Effect.fail(getMissingTagError("@since", source.path, name))
+            ? Effect.fail(getMissingTagError("@since", source, name))
             : Effect.succeed(Option.none<string>())
         )
       )
@@ -154,7 +289,7 @@ const getCategoryTag = (name: string, comment: Comment) =>
       Effect.asSome,
       Effect.catchAll(() =>
         ReadonlyRecord.has(comment.tags, "category")
-          ? Effect.fail(getMissingTagError("@category", source.path, name))
+          ? Effect.fail(getMissingTagError("@category", source, name))
           : Effect.succeed(Option.none<string>())
       )
     ))
@@ -168,7 +303,7 @@ const getDescription = (name: string, comment: Comment) =>
         Option.match({
           onNone: () =>
             config.enforceDescriptions
-              ? Effect.fail(getMissingError("description", source.path, name))
+              ? Effect.fail(getMissingError("description", source, name))
               : Effect.succeed(Option.none()),
           onSome: (description) => Effect.succeed(Option.some(description))
         })
@@ -187,13 +322,13 @@ const getExamples = (name: string, comment: Comment, isModule: boolean) =>
         Option.match({
           onNone: () =>
             config.enforceExamples && !isModule
-              ? Effect.fail(getMissingTagError("@example", source.path, name))
+              ? Effect.fail(getMissingTagError("@example", source, name))
               : Effect.succeed([]),
           onSome: (examples) =>
             config.enforceExamples &&
               ReadonlyArray.isEmptyArray(examples) &&
               !isModule
-              ? Effect.fail(getMissingTagError("@example", source.path, name))
+              ? Effect.fail(getMissingTagError("@example", source, name))
               : Effect.succeed(examples)
         })
       )
@@ -204,9 +339,12 @@ const getExamples = (name: string, comment: Comment, isModule: boolean) =>
  * @internal
  */
 export const getCommentInfo = (name: string, isModule = false) => (text: string) =>
+  getAnnotationInfo(name, isModule)(parseAnnotation(text))
+
+const getAnnotationInfo = (name: string, isModule: boolean) => (annotation: doctrine.Annotation) =>
   pipe(
     Effect.Do,
-    Effect.let("comment", () => parseComment(text)),
+    Effect.let("comment", () => fromAnnotation(annotation)),
     Effect.bind("since", ({ comment }) => getSinceTag(name, comment)),
     Effect.bind("category", ({ comment }) => getCategoryTag(name, comment)),
     Effect.bind("description", ({ comment }) => getDescription(name, comment)),
@@ -226,13 +364,27 @@ export const getCommentInfo = (name: string, isModule = false) => (text: string)
     })
   )
 
+type Enforcement = "enforceDescriptions" | "enforceExamples" | "enforceVersion"
+
+// turns off some of the enforcement settings, e.g. for the members of an
+// interface, which are documented along with it
+const withoutEnforcing = (...enforcements: ReadonlyArray<Enforcement>) =>
+  Effect.updateService(Config.Config, (config): Config.Config => ({
+    ...config,
+    ...Object.fromEntries(enforcements.map((enforcement) => [enforcement, false]))
+  }))
+
 /**
  * @internal
  */
-export const parseComment = (text: string): Comment => {
-  const annotation: doctrine.Annotation = doctrine.parse(text, {
+export const parseComment = (text: string): Comment => fromAnnotation(parseAnnotation(text))
+
+const parseAnnotation = (text: string): doctrine.Annotation =>
+  doctrine.parse(text, {
     unwrap: true
   })
+
+const fromAnnotation = (annotation: doctrine.Annotation): Comment => {
   const tags = pipe(
     annotation.tags,
     ReadonlyArray.groupBy((tag) => tag.title),
@@ -252,15 +404,544 @@ export const parseComment = (text: string): Comment => {
   return { description, tags }
 }
 
+interface CallableInfo {
+  readonly parameters: ReadonlyArray<Domain.Parameter>
+  readonly returns: Option.Option<string>
+  readonly throws: ReadonlyArray<string>
+}
+
+const getTagDescription = (tag: doctrine.Tag): Option.Option<string> =>
+  pipe(Option.fromNullable(tag.description), Option.filter(isNonEmptyString))
+
+/**
+ * Returns the names of the parameters of the given declarations (e.g. the
+ * overloads of a function), or `None` if some of them are destructured.
+ *
+ * @internal
+ */
+export const getParameterNames = (
+  declarations: ReadonlyArray<{ readonly getParameters: () => Array<ast.ParameterDeclaration> }>
+): Option.Option<ReadonlyArray<string>> => {
+  const parameters = declarations.flatMap((declaration) => declaration.getParameters())
+  return parameters.every((parameter) => ast.Node.isIdentifier(parameter.getNameNode()))
+    ? Option.some(ReadonlyArray.dedupe(parameters.map((parameter) => parameter.getName())))
+    : Option.none()
+}
+
+/**
+ * Extracts the `@param`, `@returns` and `@throws` tags of a function or a
+ * method. Fails if a `@param` tag doesn't match any of the `parameterNames`
+ * (nested properties such as `options.a` are matched by their root).
+ *
+ * @internal
+ */
+export const getCallableInfo =
+  (name: string, parameterNames: Option.Option<ReadonlyArray<string>>) => (text: string) =>
+    getAnnotationCallableInfo(name, parameterNames)(parseAnnotation(text))
+
+const getAnnotationCallableInfo =
+  (name: string, parameterNames: Option.Option<ReadonlyArray<string>>) =>
+  (annotation: doctrine.Annotation): Effect.Effect<Source, string, CallableInfo> =>
+    Effect.flatMap(Source, (source) => {
+      const tags = annotation.tags
+      const parameters = ReadonlyArray.filterMap(
+        tags,
+        (tag) =>
+          tag.title === "param" && typeof tag.name === "string"
+            ? Option.some(Domain.createParameter(tag.name, getTagDescription(tag)))
+            : Option.none()
+      )
+      const unknown = Option.match(parameterNames, {
+        onNone: () => [],
+        onSome: (names) =>
+          parameters
+            .map((parameter) => parameter.name)
+            .filter((name) => !names.includes(name.split(".")[0].replace(/\[\]$/, "")))
+      })
+      if (unknown.length > 0) {
+        return Effect.fail(
+          `Unknown ${chalk.bold("@param")} ${unknown.map((name) => `'${name}'`).join(", ")} in ${
+            chalk.bold(getQualifiedName(source, name))
+          } documentation`
+        )
+      }
+      const returns = pipe(
+        tags,
+        ReadonlyArray.findFirst((tag) => tag.title === "returns" || tag.title === "return"),
+        Option.flatMap(getTagDescription)
+      )
+      const throws = ReadonlyArray.filterMap(
+        tags.filter((tag) => ["throws", "throw", "exception"].includes(tag.title)),
+        (tag) => {
+          const type = Option.map(Option.fromNullable(tag.type), doctrine.type.stringify)
+          const description = getTagDescription(tag)
+          return Option.isSome(type) && Option.isSome(description)
+            ? Option.some(`${type.value}: ${description.value}`)
+            : Option.orElse(type, () => description)
+        }
+      )
+      return Effect.succeed({ parameters, returns, throws })
+    })
+
+// the comment is parsed once, for both the common tags and the ones of callables
+const getCallableCommentInfo =
+  (name: string, parameterNames: Option.Option<ReadonlyArray<string>>) => (text: string) => {
+    const annotation = parseAnnotation(text)
+    return Effect.all([
+      getAnnotationInfo(name, false)(annotation),
+      getAnnotationCallableInfo(name, parameterNames)(annotation)
+    ])
+  }
+
+interface OverloadDeclaration {
+  readonly getJsDocs: () => Array<ast.JSDoc>
+  readonly getParameters: () => Array<ast.ParameterDeclaration>
+  readonly getReturnType: () => ast.Type
+}
+
+interface Callable extends CallableInfo {
+  readonly documentable: Domain.Documentable
+  readonly effect: Option.Option<Domain.EffectType>
+  readonly overloads: ReadonlyArray<Domain.Overload>
+}
+
+const isEffectTypeName = (name: string): name is Domain.EffectType["name"] =>
+  name === "Effect" || name === "Stream" || name === "Layer"
+
+const getTypeText = (type: ast.Type): string => stripImportTypes(type.getText())
+
+// `boolean` is the union of `true` and `false`, but is kept as a whole
+const getUnionMembers = (type: ast.Type): ReadonlyArray<string> => {
+  if (!type.isUnion()) {
+    return [getTypeText(type)]
+  }
+  const [members, booleans] = ReadonlyArray.partition(
+    type.getUnionTypes(),
+    (member) => member.isBooleanLiteral()
+  )
+  return [
+    ...members.map(getTypeText),
+    ...(booleans.length === 2 ? ["boolean"] : booleans.map(getTypeText))
+  ]
+}
+
+// the members of a union referring to a declared type, i.e. not a keyword, a
+// literal or a type parameter
+const getReferenceMembers = (type: ast.Type): ReadonlyArray<string> =>
+  (type.isUnion() ? type.getUnionTypes() : [type])
+    .filter((member) =>
+      (member.getAliasSymbol() ?? member.getSymbol()) !== undefined && !member.isTypeParameter()
+    )
+    .map(getTypeText)
+
+// identifies the interface declaring a type by its file and its name, qualified
+// by the enclosing namespaces, e.g. `/src/Errors.ts#Http.NotFound`
+const getInterfaceDeclaration = (symbol: ast.Symbol): Option.Option<string> =>
+  pipe(
+    ReadonlyArray.findFirst(symbol.getDeclarations(), ast.Node.isInterfaceDeclaration),
+    Option.map((declaration) => {
+      const namespaces = declaration.getAncestors().filter(ast.Node.isModuleDeclaration)
+      const name = [...namespaces.reverse().map((md) => md.getName()), declaration.getName()]
+      return `${declaration.getSourceFile().getFilePath()}#${name.join(".")}`
+    })
+  )
+
+// the declarations of the members of a union which are interfaces
+const getInterfaceDeclarations = (type: ast.Type): ReadonlyArray<string> =>
+  (type.isUnion() ? type.getUnionTypes() : [type]).flatMap((member) =>
+    pipe(
+      Option.fromNullable(member.getSymbol()),
+      Option.flatMap(getInterfaceDeclaration),
+      Option.toArray
+    )
+  )
+
+const EFFECT_PACKAGE_NAME_REGEX = /^(effect|@effect\/.+)$/
+
+const PackageJsonSchema = Schema.struct({
+  name: Schema.string
+})
+
+const effectPackageFiles = new WeakMap<ast.SourceFile, boolean>()
+
+// whether a file belongs to the `effect` package or to an `@effect/*` one,
+// according to the nearest `package.json` file defining a name, read from the
+// file system of the project since the types are checked synchronously
+const isEffectPackageFile = (sourceFile: ast.SourceFile): boolean => {
+  const cached = effectPackageFiles.get(sourceFile)
+  if (cached !== undefined) {
+    return cached
+  }
+  const fileSystem = sourceFile.getProject().getFileSystem()
+  const getPackageName = (dir: string): Option.Option<string> => {
+    const path = NodePath.posix.join(dir, "package.json")
+    const name = fileSystem.fileExistsSync(path)
+      ? pipe(
+        Option.liftThrowable((): unknown => JSON.parse(fileSystem.readFileSync(path)))(),
+        Option.flatMap(Schema.parseOption(PackageJsonSchema)),
+        Option.map((packageJson) => packageJson.name)
+      )
+      : Option.none()
+    const parent = NodePath.posix.dirname(dir)
+    return Option.isNone(name) && parent !== dir ? getPackageName(parent) : name
+  }
+  const isEffect = Option.exists(
+    getPackageName(sourceFile.getDirectoryPath()),
+    (name) => EFFECT_PACKAGE_NAME_REGEX.test(name)
+  )
+  effectPackageFiles.set(sourceFile, isEffect)
+  return isEffect
+}
+
+// a reference to a generic type declared by the `effect` packages, e.g.
+// `Effect<R, E, A>`, along with the name of its symbol: a type of the same name
+// declared elsewhere is not recognized
+const getTypeReference = (
+  type: ast.Type
+): Option.Option<readonly [string, ReadonlyArray<ast.Type>]> => {
+  const aliasSymbol = type.getAliasSymbol()
+  return pipe(
+    Option.fromNullable(aliasSymbol ?? type.getSymbol()),
+    Option.filter((symbol) =>
+      symbol.getDeclarations().some((declaration) =>
+        isEffectPackageFile(declaration.getSourceFile())
+      )
+    ),
+    Option.map((symbol) =>
+      [
+        symbol.getName(),
+        aliasSymbol === undefined ? type.getTypeArguments() : type.getAliasTypeArguments()
+      ] as const
+    )
+  )
+}
+
+/**
+ * Recognizes the `Effect<R, E, A>`, `Stream<R, E, A>` and `Layer<RIn, E, ROut>`
+ * types of the `effect` packages.
+ */
+const getEffectType = (type: ast.Type): Option.Option<Domain.EffectType> =>
+  pipe(
+    getTypeReference(type),
+    Option.flatMap(([name, typeArguments]) =>
+      isEffectTypeName(name) && typeArguments.length === 3 ?
+        Option.some(
+          Domain.createEffectType(
+            name,
+            getUnionMembers(typeArguments[0]),
+            getUnionMembers(typeArguments[1]),
+            getUnionMembers(typeArguments[2]),
+            ReadonlyArray.dedupe(typeArguments.flatMap(getReferenceMembers)),
+            getInterfaceDeclarations(typeArguments[1])
+          )
+        ) :
+        Option.none()
+    )
+  )
+
+/**
+ * Recognizes a `Context.Tag<Identifier, Service>` type of the `effect`
+ * packages, and returns its identifier.
+ */
+const getTagIdentifier = (type: ast.Type): Option.Option<string> =>
+  pipe(
+    getTypeReference(type),
+    Option.flatMap(([name, typeArguments]) =>
+      name === "Tag" && typeArguments.length === 2 ?
+        Option.some(getTypeText(typeArguments[0])) :
+        Option.none()
+    )
+  )
+
+// looks through the curried functions returning an effect type, e.g. the
+// data-last signature of a `dual` API
+const getReturnedEffectType = (
+  type: ast.Type,
+  seen: ReadonlySet<ast.ts.Type> = new Set()
+): Option.Option<Domain.EffectType> =>
+  pipe(
+    getEffectType(type),
+    Option.orElse(() => {
+      const signatures = type.getCallSignatures()
+      return signatures.length === 1 && !seen.has(type.compilerType) ?
+        getReturnedEffectType(
+          signatures[0].getReturnType(),
+          new Set([...seen, type.compilerType])
+        ) :
+        Option.none()
+    })
+  )
+
+const EffectTypeEquivalence: Equivalence.Equivalence<Domain.EffectType> = Equivalence.struct({
+  name: String.Equivalence,
+  requirements: ReadonlyArray.getEquivalence(String.Equivalence),
+  errors: ReadonlyArray.getEquivalence(String.Equivalence),
+  success: ReadonlyArray.getEquivalence(String.Equivalence),
+  references: ReadonlyArray.getEquivalence(String.Equivalence)
+})
+
+// the breakdown is only documented if all the signatures agree on it
+const getCallableEffectType = (
+  returnTypes: ReadonlyArray<ast.Type>
+): Option.Option<Domain.EffectType> => {
+  const effectTypes = returnTypes.map((type) => getReturnedEffectType(type))
+  return pipe(
+    ReadonlyArray.head(effectTypes),
+    Option.flatten,
+    Option.filter((first) =>
+      effectTypes.every((effectType) =>
+        Option.isSome(effectType) && EffectTypeEquivalence(effectType.value, first)
+      )
+    )
+  )
+}
+
+const parseOverload =
+  (name: string, path: string) => (od: OverloadDeclaration, signature: string) =>
+    pipe(
+      getJSDocText(od.getJsDocs()),
+      getCallableCommentInfo(path, getParameterNames([od])),
+      Effect.map(([info, callable]) =>
+        Domain.createOverload(
+          Domain.createDocumentable(
+            name,
+            info.description,
+            info.since,
+            info.deprecated,
+            info.examples,
+            info.category
+          ),
+          signature,
+          callable.parameters,
+          callable.returns,
+          callable.throws,
+          getReturnedEffectType(od.getReturnType())
+        )
+      )
+    )
+
+/**
+ * Parses the documentation of a function or a method, i.e. the JSDoc comment
+ * of its first overload, unless more than one overload has a JSDoc comment: in
+ * that case every overload is documented separately, and only the `@since`
+ * and `@category` tags of the first one apply to the function as a whole.
+ *
+ * `path` is the name of the function or method in the error messages.
+ */
+const parseCallable = (
+  name: string,
+  path: string,
+  parameterNames: Option.Option<ReadonlyArray<string>>,
+  overloads: ReadonlyArray.NonEmptyReadonlyArray<OverloadDeclaration>,
+  signatures: ReadonlyArray<string>
+): Effect.Effect<Source | Config.Config, string, Callable> => {
+  const text = getJSDocText(ReadonlyArray.headNonEmpty(overloads).getJsDocs())
+  return pipe(
+    getCallableCommentInfo(path, parameterNames)(text),
+    Effect.flatMap(([info, callable]) =>
+      overloads.filter((od) => od.getJsDocs().length > 0).length > 1
+        ? pipe(
+          // the `@since` tag of the first overload applies to the others
+          Effect.forEach(overloads, (od, i) =>
+            i === 0 ?
+              parseOverload(name, path)(od, signatures[i]) :
+              withoutEnforcing("enforceVersion")(parseOverload(name, path)(od, signatures[i]))),
+          Effect.map((overloads): Callable => ({
+            documentable: Domain.createDocumentable(
+              name,
+              Option.none(),
+              info.since,
+              overloads.every((overload) => overload.deprecated),
+              [],
+              info.category
+            ),
+            parameters: [],
+            returns: Option.none(),
+            throws: [],
+            effect: Option.none(),
+            overloads
+          }))
+        )
+        : Effect.succeed({
+          documentable: Domain.createDocumentable(
+            name,
+            info.description,
+            info.since,
+            info.deprecated,
+            info.examples,
+            info.category
+          ),
+          ...callable,
+          effect: getCallableEffectType(overloads.map((od) => od.getReturnType())),
+          overloads: []
+        })
+    )
+  )
+}
+
 // -------------------------------------------------------------------------------------
 // interfaces
 // -------------------------------------------------------------------------------------
 
+type InterfaceMember = ast.PropertySignature | ast.MethodSignature
+
+// only the members with a JSDoc comment are documented separately
+const isDocumentedMember = (member: InterfaceMember): boolean =>
+  pipe(
+    member.getJsDocs(),
+    every([
+      ReadonlyArray.isNonEmptyArray,
+      Predicate.not(flow(getJSDocText, parseComment, shouldIgnore))
+    ])
+  )
+
+// the JSDoc comments of the documented members are stripped from the
+// signature, since the members are documented separately
+const getInterfaceDeclarationSignature = (id: ast.InterfaceDeclaration): string => {
+  const start = id.getStart()
+  return pipe(
+    [...id.getProperties(), ...id.getMethods()],
+    ReadonlyArray.filter(isDocumentedMember),
+    ReadonlyArray.flatMap((member) => member.getJsDocs()),
+    ReadonlyArray.sort(
+      Order.reverse(Order.mapInput(Order.number, (doc: ast.JSDoc) => doc.getStart()))
+    ),
+    ReadonlyArray.reduce(
+      id.getText(),
+      (text, doc) =>
+        text.slice(0, doc.getStart() - start).replace(/[ \t]*$/, "") +
+        text.slice(doc.getEnd() - start).replace(/^[ \t]*\r?\n/, "")
+    )
+  )
+}
+
+const getInterfaceMemberSignature = (member: InterfaceMember): string =>
+  member.getText().replace(/[;,]$/, "")
+
+// the members inherit the `@since` tag of their interface, and none of their
+// tags are enforced
+const parseInterfaceProperty =
+  (interfaceName: string, since: Option.Option<string>) => (ps: ast.PropertySignature) => {
+    const name = ps.getName()
+    return pipe(
+      getJSDocText(ps.getJsDocs()),
+      getCommentInfo(`${interfaceName}#${name}`),
+      withoutEnforcing("enforceDescriptions", "enforceExamples", "enforceVersion"),
+      Effect.map((info) =>
+        Domain.createProperty(
+          Domain.createDocumentable(
+            name,
+            info.description,
+            Option.orElse(info.since, () => since),
+            info.deprecated,
+            info.examples,
+            info.category
+          ),
+          getInterfaceMemberSignature(ps)
+        )
+      )
+    )
+  }
+
+// the overloads of a method are grouped together, the first one carrying the
+// documentation
+const parseInterfaceMethod =
+  (interfaceName: string, since: Option.Option<string>) =>
+  (overloads: ReadonlyArray.NonEmptyReadonlyArray<ast.MethodSignature>) => {
+    const name = ReadonlyArray.headNonEmpty(overloads).getName()
+    const signatures = overloads.map(getInterfaceMemberSignature)
+    return pipe(
+      parseCallable(
+        name,
+        `${interfaceName}#${name}`,
+        getParameterNames(overloads),
+        overloads,
+        signatures
+      ),
+      withoutEnforcing("enforceDescriptions", "enforceExamples", "enforceVersion"),
+      Effect.map((callable) =>
+        Domain.createMethod(
+          {
+            ...callable.documentable,
+            since: Option.orElse(callable.documentable.since, () => since)
+          },
+          signatures,
+          callable.parameters,
+          callable.returns,
+          callable.throws,
+          callable.effect,
+          callable.overloads
+        )
+      )
+    )
+  }
+
+// the `Case` and `Error` interfaces of the `effect` packages, or the `Error`
+// interface of the standard library, resolved by the type checker
+const isTaggedErrorBase = (heritage: ast.ExpressionWithTypeArguments): boolean => {
+  const symbol = heritage.getType().getSymbol()
+  return symbol !== undefined && symbol.getDeclarations().some((declaration) => {
+    const sourceFile = declaration.getSourceFile()
+    switch (symbol.getName()) {
+      case "Case":
+        return isEffectPackageFile(sourceFile)
+      case "Error":
+        return isEffectPackageFile(sourceFile) ||
+          sourceFile.getProject().getProgram().compilerObject.isSourceFileDefaultLibrary(
+            sourceFile.compilerNode
+          )
+      default:
+        return false
+    }
+  })
+}
+
+/**
+ * Recognizes a tagged error, i.e. an interface extending `Data.Case` (or
+ * `Error`) with a string literal `_tag` property, e.g.
+ * `interface NotFound extends Data.Case { readonly _tag: "NotFound" }`.
+ */
+const getTaggedError = (id: ast.InterfaceDeclaration): Option.Option<Domain.TaggedError> => {
+  const tag = id.getProperty("_tag")
+  if (tag === undefined || !id.getExtends().some(isTaggedErrorBase)) {
+    return Option.none()
+  }
+  const type = tag.getType()
+  return type.isStringLiteral() ?
+    Option.some(
+      Domain.createTaggedError(
+        type.getLiteralValue() as string,
+        id.getProperties().filter((ps) => ps !== tag).map(getInterfaceMemberSignature),
+        Option.getOrThrow(getInterfaceDeclaration(id.getSymbolOrThrow()))
+      )
+    ) :
+    Option.none()
+}
+
 const parseInterfaceDeclaration = (id: ast.InterfaceDeclaration) =>
   pipe(
-    getJSDocText(id.getJsDocs()),
-    getCommentInfo(id.getName()),
-    Effect.map((info) =>
+    Effect.Do,
+    Effect.bind("info", () =>
+      pipe(
+        getJSDocText(id.getJsDocs()),
+        getCommentInfo(id.getName()),
+        Effect.mapError((e) => [e])
+      )),
+    Effect.bind("methods", ({ info }) =>
+      pipe(
+        id.getMethods(),
+        ReadonlyArray.groupBy((ms) => ms.getName()),
+        (groups) => Object.values(groups),
+        ReadonlyArray.filter((overloads) => isDocumentedMember(overloads[0])),
+        Effect.validateAll(parseInterfaceMethod(id.getName(), info.since))
+      )),
+    Effect.bind("properties", ({ info }) =>
+      pipe(
+        id.getProperties(),
+        ReadonlyArray.filter(isDocumentedMember),
+        Effect.validateAll(parseInterfaceProperty(id.getName(), info.since))
+      )),
+    Effect.map(({ info, methods, properties }) =>
       Domain.createInterface(
         Domain.createDocumentable(
           id.getName(),
@@ -270,7 +951,10 @@ const parseInterfaceDeclaration = (id: ast.InterfaceDeclaration) =>
           info.examples,
           info.category
         ),
-        id.getText()
+        getInterfaceDeclarationSignature(id),
+        methods,
+        properties,
+        getTaggedError(id)
       )
     )
   )
@@ -280,7 +964,7 @@ const parseInterfaces_ = (interfaces: ReadonlyArray<ast.InterfaceDeclaration>) =
     interfaces,
     ReadonlyArray.filter(
       every<ast.InterfaceDeclaration>([
-        (id) => id.isExported(),
+        (id) => isExported(id),
         (id) =>
           pipe(
             id.getJsDocs(),
@@ -289,7 +973,10 @@ const parseInterfaces_ = (interfaces: ReadonlyArray<ast.InterfaceDeclaration>) =
       ])
     ),
     Effect.validateAll(parseInterfaceDeclaration),
-    Effect.map(ReadonlyArray.sort(byName))
+    Effect.mapBoth({
+      onFailure: ReadonlyArray.flatten,
+      onSuccess: ReadonlyArray.sort(byName)
+    })
   )
 
 /**
@@ -301,6 +988,113 @@ export const parseInterfaces = Effect.flatMap(
   (source) => parseInterfaces_(source.sourceFile.getInterfaces())
 )
 
+// -------------------------------------------------------------------------------------
+// enums
+// -------------------------------------------------------------------------------------
+
+const getEnumMemberSignature = (md: ast.EnumMember): string =>
+  pipe(
+    Option.fromNullable(md.getValue()),
+    Option.match({
+      onNone: () => md.getName(),
+      onSome: (value) => `${md.getName()} = ${JSON.stringify(value)}`
+    })
+  )
+
+const getEnumDeclarationSignature = (
+  ed: ast.EnumDeclaration,
+  members: ReadonlyArray<ast.EnumMember>
+): string => {
+  const modifier = ed.isConstEnum() ? "const " : ""
+  const body = members.map((md) => `  ${getEnumMemberSignature(md)}`).join(",\n")
+  return members.length === 0
+    ? `export declare ${modifier}enum ${ed.getName()} {}`
+    : `export declare ${modifier}enum ${ed.getName()} {\n${body}\n}`
+}
+
+// the members inherit the `@since` tag of their enum, and none of their tags
+// are enforced, as the members of an interface
+const parseEnumMember = (enumName: string, since: Option.Option<string>) => (md: ast.EnumMember) =>
+  pipe(
+    getJSDocText(md.getJsDocs()),
+    getCommentInfo(`${enumName}.${md.getName()}`),
+    withoutEnforcing("enforceDescriptions", "enforceExamples", "enforceVersion"),
+    Effect.map((info) =>
+      Domain.createEnumMember(
+        Domain.createDocumentable(
+          md.getName(),
+          info.description,
+          Option.orElse(info.since, () => since),
+          info.deprecated,
+          info.examples,
+          info.category
+        ),
+        Option.fromNullable(md.getValue())
+      )
+    )
+  )
+
+const parseEnumDeclaration = (ed: ast.EnumDeclaration) => {
+  const members = pipe(
+    ed.getMembers(),
+    ReadonlyArray.filter((md) =>
+      pipe(md.getJsDocs(), Predicate.not(flow(getJSDocText, parseComment, shouldIgnore)))
+    )
+  )
+  return pipe(
+    Effect.Do,
+    Effect.bind("info", () =>
+      pipe(
+        getJSDocText(ed.getJsDocs()),
+        getCommentInfo(ed.getName()),
+        Effect.mapError((e) => [e])
+      )),
+    Effect.bind(
+      "members",
+      ({ info }) => pipe(members, Effect.validateAll(parseEnumMember(ed.getName(), info.since)))
+    ),
+    Effect.map(({ info, members: documented }) =>
+      Domain.createEnum(
+        Domain.createDocumentable(
+          ed.getName(),
+          info.description,
+          info.since,
+          info.deprecated,
+          info.examples,
+          info.category
+        ),
+        getEnumDeclarationSignature(ed, members),
+        documented
+      )
+    )
+  )
+}
+
+const parseEnums_ = (enums: ReadonlyArray<ast.EnumDeclaration>) =>
+  pipe(
+    enums,
+    ReadonlyArray.filter(
+      every<ast.EnumDeclaration>([
+        (ed) => isExported(ed),
+        (ed) => pipe(ed.getJsDocs(), Predicate.not(flow(getJSDocText, parseComment, shouldIgnore)))
+      ])
+    ),
+    Effect.validateAll(parseEnumDeclaration),
+    Effect.mapBoth({
+      onFailure: ReadonlyArray.flatten,
+      onSuccess: ReadonlyArray.sort(byName)
+    })
+  )
+
+/**
+ * @category parsers
+ * @since 1.0.0
+ */
+export const parseEnums = Effect.flatMap(
+  Source,
+  (source) => parseEnums_(source.sourceFile.getEnums())
+)
+
 // -------------------------------------------------------------------------------------
 // functions
 // -------------------------------------------------------------------------------------
@@ -344,50 +1138,216 @@ const parseFunctionDeclaration = (fd: ast.FunctionDeclaration) =>
           () => `Missing function name in module ${source.path.join("/")}`
         )
       )),
-    Effect.flatMap((name) =>
-      pipe(
-        getJSDocText(getFunctionDeclarationJSDocs(fd)),
-        getCommentInfo(name),
-        Effect.map((info) => {
-          const signatures = pipe(
-            fd.getOverloads(),
-            ReadonlyArray.matchRight({
-              onEmpty: () => [getFunctionDeclarationSignature(fd)],
-              onNonEmpty: (init, last) =>
-                pipe(
-                  init.map(getFunctionDeclarationSignature),
-                  ReadonlyArray.append(getFunctionDeclarationSignature(last))
-                )
-            })
-          )
-          return Domain.createFunction(
-            Domain.createDocumentable(
+    Effect.flatMap((name) => {
+      const fds = fd.getOverloads()
+      const overloads = ReadonlyArray.isNonEmptyArray(fds) ? fds : ReadonlyArray.of(fd)
+      return pipe(
+        getDeclaration(fd, (container) =>
+          pipe(
+            container.getFunctions()
+              .filter((declaration) => declaration.getName() === name)
+              .map((declaration) => toDeclarationSignature(declaration.getText())),
+            Option.liftPredicate(ReadonlyArray.isNonEmptyArray)
+          )),
+        Effect.map(Option.getOrElse(() => overloads.map(getFunctionDeclarationSignature))),
+        Effect.flatMap((signatures) =>
+          pipe(
+            parseCallable(
               name,
-              info.description,
-              info.since,
-              info.deprecated,
-              info.examples,
-              info.category
+              name,
+              getParameterNames([...fd.getOverloads(), fd]),
+              overloads,
+              signatures
             ),
-            signatures
+            Effect.map((callable) =>
+              Domain.createFunction(
+                callable.documentable,
+                signatures,
+                callable.parameters,
+                callable.returns,
+                callable.throws,
+                callable.effect,
+                callable.overloads,
+                []
+              )
+            )
           )
+        )
+      )
+    })
+  )
+
+/**
+ * A call signature of a constant, printed in arrow style, e.g. `<A>(a: A) => A`.
+ */
+interface CallSignature {
+  readonly text: string
+  readonly arity: number
+}
+
+// e.g. `export const map = dual(2, ...)` or `export const map = Function.dual(2, ...)`
+const getDualCall = (vd: ast.VariableDeclaration): Option.Option<ast.CallExpression> =>
+  pipe(
+    Option.fromNullable(vd.getInitializer()),
+    Option.filter(ast.Node.isCallExpression),
+    Option.filter((ce) => {
+      const expression = ce.getExpression()
+      return ast.Node.isIdentifier(expression) ?
+        expression.getText() === "dual" :
+        ast.Node.isPropertyAccessExpression(expression) && expression.getName() === "dual"
+    })
+  )
+
+// e.g. `export const f: { (a: string): string; (a: number): number } = ...`
+const getCallSignatureDeclarations = (
+  vd: ast.VariableDeclaration
+): Option.Option<ReadonlyArray.NonEmptyReadonlyArray<ast.CallSignatureDeclaration>> =>
+  pipe(
+    Option.fromNullable(vd.getTypeNode()),
+    Option.filter(ast.Node.isTypeLiteral),
+    Option.flatMap((tl): Option.Option<
+      ReadonlyArray.NonEmptyReadonlyArray<ast.CallSignatureDeclaration>
+    > => {
+      const members = tl.getMembers()
+      return members.every(ast.Node.isCallSignatureDeclaration) &&
+          ReadonlyArray.isNonEmptyArray(members) ?
+        Option.some(members) :
+        Option.none()
+    })
+  )
+
+const getCallSignatureDeclarationText = (cs: ast.CallSignatureDeclaration): string => {
+  const typeParameters = cs.getTypeParameters()
+  const returnType = pipe(
+    Option.fromNullable(cs.getReturnTypeNode()),
+    Option.match({
+      onNone: () => stripImportTypes(cs.getReturnType().getText(cs)),
+      onSome: (node) => node.getText()
+    })
+  )
+  return (typeParameters.length > 0 ?
+    `<${typeParameters.map((tp) => tp.getText()).join(", ")}>` :
+    "") +
+    `(${cs.getParameters().map((p) => p.getText()).join(", ")}) => ${returnType}`
+}
+
+// the type of an unannotated `dual` API is inferred, e.g. as an intersection
+// of the data-last and data-first signatures
+const getInferredCallSignatures = (vd: ast.VariableDeclaration): ReadonlyArray<CallSignature> => {
+  const checker = vd.getProject().getTypeChecker().compilerObject
+  return vd.getType().getCallSignatures().map((signature) => ({
+    text: stripImportTypes(
+      checker.signatureToString(
+        signature.compilerSignature,
+        vd.compilerNode,
+        ast.ts.TypeFormatFlags.WriteArrowStyleSignature | ast.ts.TypeFormatFlags.NoTruncation
+      )
+    ),
+    arity: signature.getParameters().length
+  }))
+}
+
+const getCallSignatures = (
+  vd: ast.VariableDeclaration
+): Option.Option<ReadonlyArray.NonEmptyReadonlyArray<CallSignature>> =>
+  pipe(
+    getCallSignatureDeclarations(vd),
+    Option.map(ReadonlyArray.mapNonEmpty((cs): CallSignature => ({
+      text: getCallSignatureDeclarationText(cs),
+      arity: cs.getParameters().length
+    }))),
+    Option.orElse(() =>
+      pipe(
+        getDualCall(vd),
+        Option.flatMap((): Option.Option<ReadonlyArray.NonEmptyReadonlyArray<CallSignature>> => {
+          const signatures = getInferredCallSignatures(vd)
+          return ReadonlyArray.isNonEmptyReadonlyArray(signatures) ?
+            Option.some(signatures) :
+            Option.none()
         })
       )
     )
   )
 
+// the signatures taking (at least) as many parameters as the arity passed to
+// `dual` are data-first, the other ones are data-last
+const getCallStyles = (
+  dual: ast.CallExpression,
+  signatures: ReadonlyArray.NonEmptyReadonlyArray<CallSignature>
+): ReadonlyArray<Domain.CallStyle> => {
+  const arity = pipe(
+    ReadonlyArray.head(dual.getArguments()),
+    Option.filter(ast.Node.isNumericLiteral),
+    Option.map((n) => n.getLiteralValue()),
+    Option.getOrElse(() => Math.max(...signatures.map((signature) => signature.arity)))
+  )
+  return signatures.map((signature) => signature.arity >= arity ? "data-first" : "data-last")
+}
+
+const formatSignature = (signature: string): string => {
+  try {
+    return Prettier.format(signature, { parser: "typescript", semi: false }).trim()
+  } catch {
+    return signature
+  }
+}
+
+// formats a type on its own, e.g. the encoded type of a schema
+const formatType = (type: string): string => {
+  const formatted = formatSignature(`type _ = ${type}`).replace(/^type _ =[ ]?/, "")
+  return formatted.startsWith("\n") ?
+    formatted.slice(1).replace(/^ {2}/gm, "") :
+    formatted
+}
+
+const isCallableVariableDeclaration = (vd: ast.VariableDeclaration): boolean =>
+  pipe(
+    Option.fromNullable(vd.getInitializer()),
+    Option.match({
+      onNone: () => false,
+      onSome: (initializer) =>
+        ast.Node.isFunctionLikeDeclaration(initializer) ||
+        Option.isSome(getCallSignatureDeclarations(vd)) ||
+        Option.isSome(getDualCall(vd))
+    })
+  )
+
 const parseFunctionVariableDeclaration = (vd: ast.VariableDeclaration) => {
   const vs: any = vd.getParent().getParent()
   const name = vd.getName()
+  const callSignatures = getCallSignatures(vd)
+  const parameterNames = pipe(
+    Option.fromNullable(vd.getInitializer()),
+    Option.filter(ast.Node.isFunctionLikeDeclaration),
+    Option.map(ReadonlyArray.of),
+    Option.orElse(() => getCallSignatureDeclarations(vd)),
+    Option.flatMap(getParameterNames)
+  )
   return pipe(
-    getJSDocText(vs.getJsDocs()),
-    getCommentInfo(name),
-    Effect.map((info) => {
-      const signature = `export declare const ${name}: ${
-        stripImportTypes(
-          vd.getType().getText(vd)
-        )
-      }`
+    Effect.all([
+      getCallableCommentInfo(name, parameterNames)(getJSDocText(vs.getJsDocs())),
+      getConstantDeclarationSignature(vd, name),
+      getConstantDeclarationCallSignatures(vd, name)
+    ]),
+    Effect.map(([[info, callable], declarationSignature, declarationCallSignatures]) => {
+      const signatures = Option.match(callSignatures, {
+        onNone: () => [
+          Option.getOrElse(
+            declarationSignature,
+            () => `export declare const ${name}: ${stripImportTypes(vd.getType().getText(vd))}`
+          )
+        ],
+        // the call styles are matched with the signatures by position
+        onSome: (callSignatures) =>
+          Option.getOrElse(
+            Option.filter(
+              declarationCallSignatures,
+              (signatures) => signatures.length === callSignatures.length
+            ),
+            () =>
+              callSignatures.map((signature) => `export declare const ${name}: ${signature.text}`)
+          ).map(formatSignature)
+      })
       return Domain.createFunction(
         Domain.createDocumentable(
           name,
@@ -397,86 +1357,112 @@ const parseFunctionVariableDeclaration = (vd: ast.VariableDeclaration) => {
           info.examples,
           info.category
         ),
-        [signature]
+        signatures,
+        callable.parameters,
+        callable.returns,
+        callable.throws,
+        getCallableEffectType(
+          vd.getType().getCallSignatures().map((signature) => signature.getReturnType())
+        ),
+        [],
+        pipe(
+          getDualCall(vd),
+          Option.zipWith(callSignatures, getCallStyles),
+          Option.getOrElse(() => [])
+        )
       )
     })
   )
 }
 
-const getFunctionDeclarations = pipe(
-  Effect.map(Source, (source) => ({
-    functions: pipe(
-      source.sourceFile.getFunctions(),
-      ReadonlyArray.filter(
-        every<ast.FunctionDeclaration>([
-          (fd) => fd.isExported(),
-          Predicate.not(
-            flow(
-              getFunctionDeclarationJSDocs,
-              getJSDocText,
-              parseComment,
-              shouldIgnore
-            )
+// ambient overloads (e.g. in a `declare namespace`) have no implementation,
+// so only the first one of them is kept
+const isFunctionImplementation = (fd: ast.FunctionDeclaration): boolean =>
+  fd.hasBody() ||
+  pipe(
+    fd.getOverloads(),
+    ReadonlyArray.head,
+    Option.match({
+      onNone: () => true,
+      onSome: (first) => first.getStart() === fd.getStart()
+    })
+  )
+
+const getFunctionDeclarations = (
+  functions: ReadonlyArray<ast.FunctionDeclaration>,
+  variableDeclarations: ReadonlyArray<ast.VariableDeclaration>
+) => ({
+  functions: pipe(
+    functions,
+    ReadonlyArray.filter(
+      every<ast.FunctionDeclaration>([
+        (fd) => isExported(fd),
+        isFunctionImplementation,
+        Predicate.not(
+          flow(
+            getFunctionDeclarationJSDocs,
+            getJSDocText,
+            parseComment,
+            shouldIgnore
           )
-        ])
-      )
+        )
+      ])
+    )
+  ),
+  arrows: pipe(
+    variableDeclarations,
+    ReadonlyArray.filter(
+      every<ast.VariableDeclaration>([
+        (vd) => isVariableDeclarationList(vd.getParent()),
+        (vd) => isVariableStatement(vd.getParent().getParent() as any),
+        isCallableVariableDeclaration,
+        (vd) =>
+          pipe(
+            (vd.getParent().getParent() as ast.VariableStatement).getJsDocs(),
+            Predicate.not(flow(getJSDocText, parseComment, shouldIgnore))
+          ),
+        (vd) => isExported(vd.getParent().getParent() as ast.VariableStatement)
+      ])
+    )
+  )
+})
+
+const parseFunctions_ = (
+  functions: ReadonlyArray<ast.FunctionDeclaration>,
+  variableDeclarations: ReadonlyArray<ast.VariableDeclaration>
+) =>
+  pipe(
+    Effect.Do,
+    Effect.let(
+      "getFunctionDeclarations",
+      () => getFunctionDeclarations(functions, variableDeclarations)
     ),
-    arrows: pipe(
-      source.sourceFile.getVariableDeclarations(),
-      ReadonlyArray.filter(
-        every<ast.VariableDeclaration>([
-          (vd) => isVariableDeclarationList(vd.getParent()),
-          (vd) => isVariableStatement(vd.getParent().getParent() as any),
-          (vd) =>
-            pipe(
-              vd.getInitializer(),
-              every([
-                flow(
-                  Option.fromNullable,
-                  Option.flatMap(
-                    Option.liftPredicate(ast.Node.isFunctionLikeDeclaration)
-                  ),
-                  Option.isSome
-                ),
-                () =>
-                  pipe(
-                    (
-                      vd.getParent().getParent() as ast.VariableStatement
-                    ).getJsDocs(),
-                    Predicate.not(flow(getJSDocText, parseComment, shouldIgnore))
-                  ),
-                () =>
-                  (
-                    vd.getParent().getParent() as ast.VariableStatement
-                  ).isExported()
-              ])
-            )
-        ])
-      )
+    Effect.bind("functionDeclarations", ({ getFunctionDeclarations }) =>
+      pipe(
+        getFunctionDeclarations.functions,
+        Effect.validateAll(parseFunctionDeclaration)
+      )),
+    Effect.bind("variableDeclarations", ({ getFunctionDeclarations }) =>
+      pipe(
+        getFunctionDeclarations.arrows,
+        Effect.validateAll(parseFunctionVariableDeclaration)
+      )),
+    Effect.map(({ functionDeclarations, variableDeclarations }) =>
+      functionDeclarations.concat(variableDeclarations)
     )
-  }))
-)
+  )
 
 /**
  * @category parsers
  * @since 1.0.0
  */
-export const parseFunctions = pipe(
-  Effect.Do,
-  Effect.bind("getFunctionDeclarations", () => getFunctionDeclarations),
-  Effect.bind("functionDeclarations", ({ getFunctionDeclarations }) =>
-    pipe(
-      getFunctionDeclarations.functions,
-      Effect.validateAll(parseFunctionDeclaration)
-    )),
-  Effect.bind("variableDeclarations", ({ getFunctionDeclarations }) =>
-    pipe(
-      getFunctionDeclarations.arrows,
-      Effect.validateAll(parseFunctionVariableDeclaration)
-    )),
-  Effect.map(({ functionDeclarations, variableDeclarations }) =>
-    functionDeclarations.concat(variableDeclarations)
-  )
+export const parseFunctions = Effect.flatMap(
+  Source,
+  (source) =>
+    parseFunctions_(
+      source.sourceFile.getFunctions(),
+      source.sourceFile.getVariableDeclarations()
+    )
 )
 
 // -------------------------------------------------------------------------------------
@@ -512,7 +1498,7 @@ const parseTypeAliases_ = (typeAliases: ReadonlyArray<ast.TypeAliasDeclaration>)
     typeAliases,
     ReadonlyArray.filter(
       every<ast.TypeAliasDeclaration>([
-        (alias) => alias.isExported(),
+        (alias) => isExported(alias),
         (alias) =>
           pipe(
             alias.getJsDocs(),
@@ -537,16 +1523,143 @@ export const parseTypeAliases = Effect.flatMap(
 // constants
 // -------------------------------------------------------------------------------------
 
+/**
+ * Recognizes a `Schema<From, To>` type of the `effect` packages, and returns
+ * its encoded and decoded types.
+ */
+const getSchemaTypeArguments = (
+  type: ast.Type
+): Option.Option<readonly [from: ast.Type, to: ast.Type]> =>
+  pipe(
+    getTypeReference(type),
+    Option.flatMap(([name, typeArguments]) =>
+      name === "Schema" && typeArguments.length === 2 ?
+        Option.some([typeArguments[0], typeArguments[1]] as const) :
+        Option.none()
+    )
+  )
+
+const isLiteralSchema = (schema: Record<string, unknown>): boolean => "const" in schema
+
+/**
+ * Derives a JSON Schema from the TypeScript type of the encoded side of a
+ * schema, i.e. not from the AST of the schema, so the annotations of the schema
+ * (e.g. its refinements) are not reflected.
+ *
+ * Returns `None` if the type contains a construct JSON can't represent, e.g. a
+ * function, a `Date`, a `Map` or an instance of a class.
+ */
+const getJsonSchema = (
+  type: ast.Type,
+  node: ast.Node,
+  seen: ReadonlySet<ast.ts.Type> = new Set()
+): Option.Option<Record<string, unknown>> => {
+  const next = new Set([...seen, type.compilerType])
+  if (seen.has(type.compilerType)) {
+    return Option.none()
+  } else if (type.isAny() || type.isUnknown()) {
+    return Option.some({})
+  } else if (type.isString()) {
+    return Option.some({ type: "string" })
+  } else if (type.isNumber()) {
+    return Option.some({ type: "number" })
+  } else if (type.isBoolean()) {
+    return Option.some({ type: "boolean" })
+  } else if (type.isNull()) {
+    return Option.some({ type: "null" })
+  } else if (type.isStringLiteral() || type.isNumberLiteral()) {
+    return Option.some({ const: type.getLiteralValue() })
+  } else if (type.isBooleanLiteral()) {
+    return Option.some({ const: type.getText() === "true" })
+  } else if (type.isUnion()) {
+    // `undefined` only stands for the optional properties, and `boolean` is
+    // the union of `true` and `false`
+    const [members, booleans] = ReadonlyArray.partition(
+      type.getUnionTypes().filter((member) => !member.isUndefined()),
+      (member) => member.isBooleanLiteral()
+    )
+    return pipe(
+      Option.all<ReadonlyArray<Option.Option<Record<string, unknown>>>>([
+        ...members.map((member) => getJsonSchema(member, node, next)),
+        ...(booleans.length === 2 ?
+          [Option.some({ type: "boolean" })] :
+          booleans.map((member) => getJsonSchema(member, node, next)))
+      ]),
+      Option.map((schemas) =>
+        schemas.length === 1 ?
+          schemas[0] :
+          schemas.every(isLiteralSchema) ?
+          { enum: schemas.map((schema) => schema.const) } :
+          { anyOf: schemas }
+      )
+    )
+  } else if (type.isArray() || type.isReadonlyArray()) {
+    return pipe(
+      getJsonSchema(type.getTypeArguments()[0], node, next),
+      Option.map((items) => ({ type: "array", items }))
+    )
+  } else if (type.isTuple()) {
+    return pipe(
+      Option.all(type.getTupleElements().map((element) => getJsonSchema(element, node, next))),
+      Option.map((items) => ({ type: "array", items }))
+    )
+  } else if (type.isObject() && type.getCallSignatures().length === 0) {
+    const properties = type.getProperties()
+    const required = properties.filter((p) => !p.isOptional()).map((p) => p.getName())
+    const index = type.getStringIndexType()
+    return pipe(
+      Option.all([
+        Option.all(
+          properties.map((p) =>
+            pipe(
+              getJsonSchema(p.getTypeAtLocation(node), node, next),
+              Option.map((schema) => [p.getName(), schema] as const)
+            )
+          )
+        ),
+        index === undefined ? Option.some(false) : getJsonSchema(index, node, next)
+      ]),
+      Option.map(([properties, additionalProperties]) => ({
+        type: "object",
+        properties: Object.fromEntries(properties),
+        ...(required.length > 0 ? { required } : {}),
+        additionalProperties
+      }))
+    )
+  }
+  return Option.none()
+}
+
+const getSchemaType = (vd: ast.VariableDeclaration, emitJsonSchemas: boolean) =>
+  Option.map(getSchemaTypeArguments(vd.getType()), ([from, to]): Domain.SchemaType => {
+    const getText = (type: ast.Type) =>
+      formatType(stripImportTypes(type.getText(vd, ast.ts.TypeFormatFlags.NoTruncation)))
+    return Domain.createSchemaType(
+      getText(from),
+      getText(to),
+      emitJsonSchemas ?
+        Option.map(getJsonSchema(from, vd), (schema) => JSON.stringify(schema, null, 2)) :
+        Option.none()
+    )
+  })
+
 const parseConstantVariableDeclaration = (vd: ast.VariableDeclaration) => {
   const vs: any = vd.getParent().getParent()
   const name = vd.getName()
   return pipe(
-    getJSDocText(vs.getJsDocs()),
-    getCommentInfo(name),
-    Effect.map((info) => {
-      const type = stripImportTypes(vd.getType().getText(vd))
-      const signature = `export declare const ${name}: ${type}`
-      return Domain.createConstant(
+    Effect.all([
+      Config.Config,
+      Source,
+      getCommentInfo(name)(getJSDocText(vs.getJsDocs())),
+      getConstantDeclarationSignature(vd, name)
+    ]),
+    Effect.flatMap(([config, source, info, declarationSignature]) => {
+      const signature = Option.getOrElse(
+        declarationSignature,
+        () => `export declare const ${name}: ${stripImportTypes(vd.getType().getText(vd))}`
+      )
+      const schema = getSchemaType(vd, config.emitJsonSchemas)
+      const constant = Domain.createConstant(
         Domain.createDocumentable(
           name,
           info.description,
@@ -555,59 +1668,61 @@ const parseConstantVariableDeclaration = (vd: ast.VariableDeclaration) => {
           info.examples,
           info.category
         ),
-        signature
+        signature,
+        getEffectType(vd.getType()),
+        getTagIdentifier(vd.getType()),
+        schema
       )
+      return config.emitJsonSchemas && Option.exists(schema, (st) => Option.isNone(st.jsonSchema)) ?
+        Effect.as(
+          Effect.logDebug(
+            `No JSON Schema emitted for ${
+              getQualifiedName(source, name)
+            }: its encoded type can't be represented in JSON`
+          ),
+          constant
+        ) :
+        Effect.succeed(constant)
     })
   )
-}
+}
+
+// ambient constants (e.g. `export declare const a: number`) have no initializer
+const isConstantInitializer = (vd: ast.VariableDeclaration): boolean =>
+  pipe(
+    Option.fromNullable(vd.getInitializer()),
+    Option.match({
+      onNone: () => (vd.getParent().getParent() as ast.VariableStatement).isAmbient(),
+      onSome: () => !isCallableVariableDeclaration(vd)
+    })
+  )
+
+const parseConstants_ = (variableDeclarations: ReadonlyArray<ast.VariableDeclaration>) =>
+  pipe(
+    variableDeclarations,
+    ReadonlyArray.filter(
+      every<ast.VariableDeclaration>([
+        (vd) => isVariableDeclarationList(vd.getParent()),
+        (vd) => isVariableStatement(vd.getParent().getParent() as any),
+        isConstantInitializer,
+        (vd) =>
+          pipe(
+            (vd.getParent().getParent() as ast.VariableStatement).getJsDocs(),
+            Predicate.not(flow(getJSDocText, parseComment, shouldIgnore))
+          ),
+        (vd) => isExported(vd.getParent().getParent() as ast.VariableStatement)
+      ])
+    ),
+    Effect.validateAll(parseConstantVariableDeclaration)
+  )
 
 /**
  * @category parsers
  * @since 1.0.0
  */
-export const parseConstants = pipe(
-  Effect.map(Source, (source) =>
-    pipe(
-      source.sourceFile.getVariableDeclarations(),
-      ReadonlyArray.filter(
-        every<ast.VariableDeclaration>([
-          (vd) => isVariableDeclarationList(vd.getParent()),
-          (vd) => isVariableStatement(vd.getParent().getParent() as any),
-          (vd) =>
-            pipe(
-              vd.getInitializer(),
-              every([
-                flow(
-                  Option.fromNullable,
-                  Option.flatMap(
-                    Option.liftPredicate(
-                      Predicate.not(ast.Node.isFunctionLikeDeclaration)
-                    )
-                  ),
-                  Option.isSome
-                ),
-                () =>
-                  pipe(
-                    (
-                      vd.getParent().getParent() as ast.VariableStatement
-                    ).getJsDocs(),
-                    Predicate.not(flow(getJSDocText, parseComment, shouldIgnore))
-                  ),
-                () =>
-                  (
-                    vd.getParent().getParent() as ast.VariableStatement
-                  ).isExported()
-              ])
-            )
-        ])
-      )
-    )),
-  Effect.flatMap((variableDeclarations) =>
-    pipe(
-      variableDeclarations,
-      Effect.validateAll(parseConstantVariableDeclaration)
-    )
-  )
+export const parseConstants = Effect.flatMap(
+  Source,
+  (source) => parseConstants_(source.sourceFile.getVariableDeclarations())
 )
 
 // -------------------------------------------------------------------------------------
@@ -620,10 +1735,11 @@ const parseExportSpecifier = (es: ast.ExportSpecifier) =>
       Effect.Do,
       Effect.bind("name", () => Effect.succeed(es.compilerNode.name.text)),
       Effect.bind("type", () => Effect.succeed(stripImportTypes(es.getType().getText(es)))),
-      Effect.bind(
-        "signature",
-        ({ name, type }) => Effect.succeed(`export declare const ${name}: ${type}`)
-      ),
+      Effect.bind("signature", ({ name, type }) =>
+        Effect.map(
+          getConstantDeclarationSignature(es, name, es.getName()),
+          Option.getOrElse(() => `export declare const ${name}: ${type}`)
+        )),
       Effect.flatMap(({ name, signature }) =>
         pipe(
           es.getLeadingCommentRanges(),
@@ -668,82 +1784,118 @@ export const parseExports = pipe(
 )
 
 // -------------------------------------------------------------------------------------
-// namespaces
+// re-exports
 // -------------------------------------------------------------------------------------
 
-const parseModuleDeclaration = (
-  ed: ast.ModuleDeclaration
-): Effect.Effect<Source | Config.Config, Array<string>, Domain.Namespace> =>
-  Effect.flatMap(Source, (_source) => {
-    const name = ed.getName()
-    const getInfo = pipe(
-      getJSDocText(ed.getJsDocs()),
-      getCommentInfo(name),
-      Effect.mapError((e) => [e])
-    )
-    const getInterfaces = parseInterfaces_(ed.getInterfaces())
-    const getTypeAliases = parseTypeAliases_(
-      ed.getTypeAliases()
+const isReexportDeclaration = (ed: ast.ExportDeclaration): boolean => {
+  const exportClause = ed.compilerNode.exportClause
+  return (exportClause === undefined || ast.ts.isNamespaceExport(exportClause)) &&
+    Option.exists(
+      Option.fromNullable(ed.getModuleSpecifierValue()),
+      (specifier) => specifier.startsWith(".")
     )
-    const getNamespaces = parseNamespaces_(ed.getModules())
-    return Effect.gen(function*(_) {
-      const info = yield* _(getInfo)
-      const interfaces = yield* _(getInterfaces)
-      const typeAliases = yield* _(getTypeAliases)
-      const namespaces = yield* _(getNamespaces)
-      return Domain.createNamespace(
-        Domain.createDocumentable(
-          name,
-          info.description,
-          info.since,
-          info.deprecated,
-          info.examples,
-          info.category
-        ),
-        interfaces,
-        typeAliases,
-        namespaces
-      )
+}
+
+const getReexportCommentText = (ed: ast.ExportDeclaration): string => {
+  const commentRanges = ed.getLeadingCommentRanges()
+  // the first comment of the first statement is the module documentation
+  return pipe(
+    ed.getChildIndex() === 0 ? commentRanges.slice(1) : commentRanges,
+    ReadonlyArray.last,
+    Option.match({
+      onNone: () => "",
+      onSome: (commentRange) => commentRange.getText()
     })
-  })
+  )
+}
 
-const parseNamespaces_ = (namespaces: ReadonlyArray<ast.ModuleDeclaration>) =>
+const getReexportPath = (
+  source: Source,
+  ed: ast.ExportDeclaration
+): Option.Option<ReadonlyArray.NonEmptyReadonlyArray<string>> =>
   pipe(
-    namespaces,
-    ReadonlyArray.filter(
-      every<ast.ModuleDeclaration>([
-        (module) => module.isExported(),
-        (module) =>
-          pipe(
-            module.getJsDocs(),
-            Predicate.not(flow(getJSDocText, parseComment, shouldIgnore))
-          )
-      ])
+    Option.fromNullable(ed.getModuleSpecifierSourceFile()),
+    Option.map((sourceFile) =>
+      NodePath.join(
+        NodePath.dirname(source.path.join(NodePath.sep)),
+        NodePath.relative(
+          NodePath.dirname(source.sourceFile.getFilePath()),
+          sourceFile.getFilePath()
+        )
+      ).split(NodePath.sep)
     ),
-    Effect.validateAll(parseModuleDeclaration),
-    Effect.mapBoth({
-      onFailure: ReadonlyArray.flatten,
-      onSuccess: ReadonlyArray.sort(byName)
-    })
+    Option.filter(ReadonlyArray.isNonEmptyReadonlyArray<string>)
   )
 
+const parseReexportDeclaration = (ed: ast.ExportDeclaration) =>
+  Effect.flatMap(Source, (source) =>
+    pipe(
+      getReexportPath(source, ed),
+      Effect.mapError(() =>
+        `Unable to resolve the module ${ed.getModuleSpecifierValue()} re-exported by ${
+          source.path.join("/")
+        }`
+      ),
+      Effect.flatMap((path) => {
+        const namespace = Option.map(
+          Option.fromNullable(ed.getNamespaceExport()),
+          (ne) => ne.getName()
+        )
+        const name = Option.getOrElse(namespace, () => getModuleName(path))
+        return pipe(
+          getCommentInfo(name)(getReexportCommentText(ed)),
+          Effect.map((info) =>
+            Domain.createReexport(
+              Domain.createDocumentable(
+                name,
+                info.description,
+                info.since,
+                info.deprecated,
+                info.examples,
+                info.category
+              ),
+              namespace,
+              path
+            )
+          )
+        )
+      })
+    ))
+
 /**
+ * Parses the re-exports of whole modules (`export * from` and
+ * `export * as ns from`) with a relative module specifier.
+ *
  * @category parsers
  * @since 1.0.0
  */
-export const parseNamespaces: Effect.Effect<
-  Source | Config.Config,
-  Array<string>,
-  Array<Domain.Namespace>
-> = Effect.flatMap(Source, (source) => parseNamespaces_(source.sourceFile.getModules()))
+export const parseReexports = pipe(
+  Effect.map(Source, (source) =>
+    pipe(
+      source.sourceFile.getExportDeclarations(),
+      ReadonlyArray.filter(
+        every<ast.ExportDeclaration>([
+          isReexportDeclaration,
+          (ed) => !shouldIgnore(parseComment(getReexportCommentText(ed)))
+        ])
+      )
+    )),
+  Effect.flatMap(Effect.validateAll(parseReexportDeclaration)),
+  Effect.map(ReadonlyArray.sort(byName))
+)
 
 // -------------------------------------------------------------------------------------
 // classes
 // -------------------------------------------------------------------------------------
 
+// the text of a type parameter includes its modifiers (e.g. `in`, `out` and
+// `const`), its constraint and its default
 const getTypeParameters = (
   tps: ReadonlyArray<ast.TypeParameterDeclaration>
-): string => tps.length === 0 ? "" : `<${tps.map((p) => p.getName()).join(", ")}>`
+): string => tps.length === 0 ? "" : `<${tps.map((p) => p.getText()).join(", ")}>`
+
+const getHeritageClauses = (hcs: ReadonlyArray<ast.HeritageClause>): string =>
+  hcs.map((hc) => ` ${hc.getText()}`).join("")
 
 const getMethodSignature = (md: ast.MethodDeclaration): string =>
   pipe(
@@ -772,59 +1924,85 @@ const parseMethod = (md: ast.MethodDeclaration) =>
           })
         )
       )),
-    Effect.flatMap(({ jsdocs, name, overloads }) =>
-      shouldIgnore(parseComment(getJSDocText(jsdocs)))
-        ? Effect.succeed(Option.none())
-        : pipe(
-          getJSDocText(jsdocs),
-          getCommentInfo(name),
-          Effect.map((info) => {
-            const signatures = pipe(
-              overloads,
-              ReadonlyArray.matchRight({
-                onEmpty: () => [getMethodSignature(md)],
-                onNonEmpty: (init, last) =>
-                  pipe(
-                    init.map((md) => md.getText()),
-                    ReadonlyArray.append(getMethodSignature(last))
-                  )
-              })
-            )
-            return Option.some(
-              Domain.createMethod(
-                Domain.createDocumentable(
-                  name,
-                  info.description,
-                  info.since,
-                  info.deprecated,
-                  info.examples,
-                  info.category
-                ),
-                signatures
+    Effect.flatMap(({ jsdocs, name, overloads }) => {
+      if (shouldIgnore(parseComment(getJSDocText(jsdocs)))) {
+        return Effect.succeed(Option.none())
+      }
+      return pipe(
+        getMemberDeclaration(md, (declaration) =>
+          pipe(
+            (md.isStatic() ? declaration.getStaticMethods() : declaration.getInstanceMethods())
+              .filter((method) => method.getName() === name)
+              .map(getMemberDeclarationSignature),
+            Option.liftPredicate(ReadonlyArray.isNonEmptyArray)
+          )),
+        Effect.map(Option.getOrElse(() =>
+          pipe(
+            overloads,
+            ReadonlyArray.matchRight({
+              onEmpty: () => [getMethodSignature(md)],
+              onNonEmpty: (init, last) =>
+                pipe(
+                  init.map((md) => md.getText()),
+                  ReadonlyArray.append(getMethodSignature(last))
+                )
+            })
+          )
+        )),
+        Effect.flatMap((signatures) =>
+          pipe(
+            parseCallable(
+              name,
+              name,
+              getParameterNames([...overloads, md]),
+              ReadonlyArray.isNonEmptyArray(overloads) ? overloads : ReadonlyArray.of(md),
+              signatures
+            ),
+            Effect.map((callable) =>
+              Option.some(
+                Domain.createMethod(
+                  callable.documentable,
+                  signatures,
+                  callable.parameters,
+                  callable.returns,
+                  callable.throws,
+                  callable.effect,
+                  callable.overloads
+                )
               )
             )
-          })
+          )
         )
-    )
+      )
+    })
   )
 
 const parseProperty = (classname: string) => (pd: ast.PropertyDeclaration) => {
   const name = pd.getName()
   return pipe(
-    getJSDocText(pd.getJsDocs()),
-    getCommentInfo(`${classname}#${name}`),
-    Effect.map((info) => {
-      const type = stripImportTypes(pd.getType().getText(pd))
-      const readonly = pipe(
-        Option.fromNullable(
-          pd.getFirstModifierByKind(ast.ts.SyntaxKind.ReadonlyKeyword)
-        ),
-        Option.match({
-          onNone: () => "",
-          onSome: () => "readonly "
-        })
-      )
-      const signature = `${readonly}${name}: ${type}`
+    Effect.all([
+      getCommentInfo(`${classname}#${name}`)(getJSDocText(pd.getJsDocs())),
+      getMemberDeclaration(pd, (declaration) =>
+        pipe(
+          Option.fromNullable(declaration.getProperty(name)),
+          Option.filter((property) => !property.isStatic()),
+          Option.map(getMemberDeclarationSignature)
+        ))
+    ]),
+    Effect.map(([info, declarationSignature]) => {
+      const signature = Option.getOrElse(declarationSignature, () => {
+        const type = stripImportTypes(pd.getType().getText(pd))
+        const readonly = pipe(
+          Option.fromNullable(
+            pd.getFirstModifierByKind(ast.ts.SyntaxKind.ReadonlyKeyword)
+          ),
+          Option.match({
+            onNone: () => "",
+            onSome: () => "readonly "
+          })
+        )
+        return `${readonly}${name}: ${type}`
+      })
       return Domain.createProperty(
         Domain.createDocumentable(
           name,
@@ -889,23 +2067,39 @@ const getClassName = (c: ast.ClassDeclaration) =>
 const getClassCommentInfo = (name: string, c: ast.ClassDeclaration) =>
   pipe(c.getJsDocs(), getJSDocText, getCommentInfo(name))
 
+const getClassSignature = (header: string, constructors: ReadonlyArray<string>): string =>
+  pipe(
+    constructors,
+    ReadonlyArray.matchLeft({
+      onEmpty: () => header,
+      onNonEmpty: (head) => `${header} { ${head} }`
+    })
+  )
+
+// the header of a class is its text up to the opening brace of its body
+const getClassDeclarationHeader = (c: ast.ClassDeclaration): string =>
+  c.getText().substring(
+    0,
+    c.getFirstChildByKindOrThrow(ast.ts.SyntaxKind.OpenBraceToken).getStart() - c.getStart()
+  ).trim()
+
 const getClassDeclarationSignature = (name: string, c: ast.ClassDeclaration) =>
   pipe(
-    Effect.succeed(getTypeParameters(c.getTypeParameters())),
-    Effect.map((typeParameters) =>
-      pipe(
-        c.getConstructors(),
-        ReadonlyArray.matchLeft({
-          onEmpty: () => `export declare class ${name}${typeParameters}`,
-          onNonEmpty: (head) =>
-            `export declare class ${name}${typeParameters} { ${
-              getConstructorDeclarationSignature(
-                head
-              )
-            } }`
-        })
-      )
-    )
+    getClassDeclaration(c, name),
+    Effect.map(Option.match({
+      onNone: () =>
+        getClassSignature(
+          `export declare ${c.isAbstract() ? "abstract " : ""}class ${name}${
+            getTypeParameters(c.getTypeParameters())
+          }${getHeritageClauses(c.getHeritageClauses())}`,
+          c.getConstructors().map(getConstructorDeclarationSignature)
+        ),
+      onSome: (declaration) =>
+        getClassSignature(
+          toDeclarationSignature(getClassDeclarationHeader(declaration)),
+          declaration.getConstructors().map(getMemberDeclarationSignature)
+        )
+    }))
   )
 
 const parseClass = (c: ast.ClassDeclaration) =>
@@ -946,34 +2140,112 @@ const parseClass = (c: ast.ClassDeclaration) =>
     )
   )
 
+const parseClasses_ = (classes: ReadonlyArray<ast.ClassDeclaration>) =>
+  pipe(
+    classes,
+    ReadonlyArray.filter(every<ast.ClassDeclaration>([
+      (id) => isExported(id),
+      (id) =>
+        pipe(
+          id.getJsDocs(),
+          Predicate.not(flow(getJSDocText, parseComment, shouldIgnore))
+        )
+    ])),
+    Effect.validateAll(parseClass),
+    Effect.mapBoth({
+      onFailure: ReadonlyArray.flatten,
+      onSuccess: ReadonlyArray.sort(byName)
+    })
+  )
+
 /**
  * @category parsers
  * @since 1.0.0
  */
-export const parseClasses = pipe(
-  Effect.map(Source, (source) =>
-    pipe(
-      source.sourceFile.getClasses(),
-      ReadonlyArray.filter(every<ast.ClassDeclaration>([
-        (id) => id.isExported(),
-        (id) =>
+export const parseClasses = Effect.flatMap(
+  Source,
+  (source) => parseClasses_(source.sourceFile.getClasses())
+)
+
+// -------------------------------------------------------------------------------------
+// namespaces
+// -------------------------------------------------------------------------------------
+
+const parseModuleDeclaration = (
+  ed: ast.ModuleDeclaration
+): Effect.Effect<Source | Config.Config, Array<string>, Domain.Namespace> => {
+  const name = ed.getName()
+  // the names of the members are qualified by the one of the namespace
+  const inNamespace = Effect.updateService(Source, (source): Source => ({
+    ...source,
+    namespaces: [...source.namespaces, name]
+  }))
+  // the errors of every kind of member are collected
+  return pipe(
+    Effect.all([
+      pipe(getJSDocText(ed.getJsDocs()), getCommentInfo(name), Effect.mapError((e) => [e])),
+      inNamespace(parseInterfaces_(ed.getInterfaces())),
+      inNamespace(parseTypeAliases_(ed.getTypeAliases())),
+      inNamespace(parseNamespaces_(ed.getModules())),
+      inNamespace(parseClasses_(ed.getClasses())),
+      inNamespace(parseFunctions_(ed.getFunctions(), ed.getVariableDeclarations())),
+      inNamespace(parseConstants_(ed.getVariableDeclarations())),
+      inNamespace(parseEnums_(ed.getEnums()))
+    ], { mode: "validate" }),
+    Effect.mapError((errors) => ReadonlyArray.flatten(ReadonlyArray.compact(errors))),
+    Effect.map((
+      [info, interfaces, typeAliases, namespaces, classes, functions, constants, enums]
+    ) =>
+      Domain.createNamespace(
+        Domain.createDocumentable(
+          name,
+          info.description,
+          info.since,
+          info.deprecated,
+          info.examples,
+          info.category
+        ),
+        interfaces,
+        typeAliases,
+        namespaces,
+        classes,
+        functions,
+        constants,
+        enums
+      )
+    )
+  )
+}
+
+const parseNamespaces_ = (namespaces: ReadonlyArray<ast.ModuleDeclaration>) =>
+  pipe(
+    namespaces,
+    ReadonlyArray.filter(
+      every<ast.ModuleDeclaration>([
+        (module) => isExported(module),
+        (module) =>
           pipe(
-            id.getJsDocs(),
+            module.getJsDocs(),
             Predicate.not(flow(getJSDocText, parseComment, shouldIgnore))
           )
-      ]))
-    )),
-  Effect.flatMap((classDeclarations) =>
-    pipe(
-      classDeclarations,
-      Effect.validateAll(parseClass),
-      Effect.mapBoth({
-        onFailure: ReadonlyArray.flatten,
-        onSuccess: ReadonlyArray.sort(byName)
-      })
-    )
+      ])
+    ),
+    Effect.validateAll(parseModuleDeclaration),
+    Effect.mapBoth({
+      onFailure: ReadonlyArray.flatten,
+      onSuccess: ReadonlyArray.sort(byName)
+    })
   )
-)
+
+/**
+ * @category parsers
+ * @since 1.0.0
+ */
+export const parseNamespaces: Effect.Effect<
+  Source | Config.Config,
+  Array<string>,
+  Array<Domain.Namespace>
+> = Effect.flatMap(Source, (source) => parseNamespaces_(source.sourceFile.getModules()))
 
 // -------------------------------------------------------------------------------------
 // modules
@@ -1048,15 +2320,19 @@ export const parseModule = pipe(
       Effect.bind("constants", () => parseConstants),
       Effect.bind("exports", () => parseExports),
       Effect.bind("namespaces", () => parseNamespaces),
+      Effect.bind("enums", () => parseEnums),
+      Effect.bind("reexports", () => parseReexports),
       Effect.map(
         ({
           classes,
           constants,
           documentation,
+          enums,
           exports,
           functions,
           interfaces,
           namespaces,
+          reexports,
           typeAliases
         }) =>
           Domain.createModule(
@@ -1068,12 +2344,60 @@ export const parseModule = pipe(
             typeAliases,
             constants,
             exports,
-            namespaces
+            namespaces,
+            enums,
+            reexports
           )
       )
     ))
 )
 
+/**
+ * Applies the enforcement settings of the `overrides` whose `files` pattern
+ * matches the given path, later overrides taking precedence.
+ *
+ * @internal
+ */
+export const resolveOverrides = (config: Config.Config, path: string): Config.Config =>
+  config.overrides.reduce(
+    (resolved, { files, ...settings }) =>
+      minimatch(path, files) ? { ...resolved, ...settings } : resolved,
+    config
+  )
+
+/**
+ * Emits the declaration file of a source file (in memory), if
+ * `useDeclarationEmit` is enabled.
+ */
+const getDeclarationFile = (
+  project: ast.Project,
+  sourceFile: ast.SourceFile,
+  path: ReadonlyArray<string>
+): Effect.Effect<Config.Config, Array<string>, Option.Option<ast.SourceFile>> =>
+  Effect.flatMap(Config.Config, (config) => {
+    if (!config.useDeclarationEmit) {
+      return Effect.succeed(Option.none())
+    }
+    const output = project.emitToMemory({ targetSourceFile: sourceFile, emitOnlyDtsFiles: true })
+    const diagnostics = output.getDiagnostics()
+    if (diagnostics.length > 0) {
+      return Effect.fail(
+        diagnostics.map((diagnostic) =>
+          `Unable to emit the declarations of ${path.join("/")}: ${
+            ast.ts.flattenDiagnosticMessageText(diagnostic.compilerObject.messageText, "\n")
+          }`
+        )
+      )
+    }
+    return Effect.succeed(pipe(
+      output.getFiles(),
+      ReadonlyArray.findFirst((file) => file.filePath.endsWith(".d.ts")),
+      Option.map((file) =>
+        new ast.Project({ useInMemoryFileSystem: true }).createSourceFile(file.filePath, file.text)
+      )
+    ))
+  })
+
 /**
  * @internal
  */
@@ -1087,29 +2411,133 @@ export const parseFile = (project: ast.Project) =>
   const sourceFile = project.getSourceFile(file.path)
   if (sourceFile !== undefined) {
     return pipe(
-      parseModule,
-      Effect.provideService(Source, { path, sourceFile })
+      getDeclarationFile(project, sourceFile, path),
+      Effect.flatMap((declarationFile) =>
+        Effect.provideService(parseModule, Source, {
+          path,
+          sourceFile,
+          declarationFile,
+          namespaces: []
+        })
+      ),
+      Effect.updateService(Config.Config, (config) => resolveOverrides(config, path.join("/")))
     )
   }
   return Effect.fail([`Unable to locate file: ${file.path}`])
 }
 
-const createProject = (files: ReadonlyArray<FileSystem.File>) =>
-  pipe(
-    Config.Config,
-    Effect.map((config) => {
-      const options: ast.ProjectOptions = {
-        compilerOptions: {
-          strict: true,
-          ...config.parseCompilerOptions
+const getParseCompilerOptions = (
+  config: Config.Config,
+  cwd: string
+): Effect.Effect<never, Array<Array<string>>, ast.CompilerOptions> => {
+  const { errors, options } = ast.ts.convertCompilerOptionsFromJson(
+    config.parseCompilerOptions,
+    cwd
+  )
+  return errors.length > 0
+    ? Effect.fail([
+      errors.map((diagnostic) =>
+        `Invalid parseCompilerOptions: ${
+          ast.ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+        }`
+      )
+    ])
+    : Effect.succeed(options)
+}
+
+const DEFAULT_TS_CONFIG_FILE_NAME = "tsconfig.json"
+
+// looks up the `tsconfig.json` file from a directory upwards
+const findTsConfigFile = (
+  fileSystem: FileSystem.FileSystem,
+  dir: string
+): Effect.Effect<never, FileSystem.ReadFileError, Option.Option<string>> => {
+  const path = NodePath.join(dir, DEFAULT_TS_CONFIG_FILE_NAME)
+  const parent = NodePath.dirname(dir)
+  return Effect.if(fileSystem.pathExists(path), {
+    onTrue: Effect.succeed(Option.some(path)),
+    onFalse: parent === dir ? Effect.succeed(Option.none()) : findTsConfigFile(fileSystem, parent)
+  })
+}
+
+/**
+ * Resolves the `tsconfig.json` file whose compiler options are used to parse
+ * the source files. Unless a `tsConfigFilePath` is set, the `tsconfig.json`
+ * file is looked up from the current working directory upwards, and is
+ * optional, while a `tsConfigFilePath` is resolved relative to the current
+ * working directory, and must exist.
+ *
+ * @internal
+ */
+export const getTsConfigFilePath: Effect.Effect<
+  Config.Config | FileSystem.FileSystem | Process.Process,
+  Config.ConfigError | FileSystem.ReadFileError,
+  Option.Option<string>
+> = Effect.all([Config.Config, FileSystem.FileSystem, Process.Process]).pipe(
+  Effect.flatMap(([config, fileSystem, process]) =>
+    Effect.flatMap(process.cwd, (cwd) =>
+      Option.match(config.tsConfigFilePath, {
+        onNone: () => findTsConfigFile(fileSystem, cwd),
+        onSome: (tsConfigFilePath) => {
+          const path = NodePath.resolve(cwd, tsConfigFilePath)
+          return Effect.if(fileSystem.pathExists(path), {
+            onTrue: Effect.succeed(Option.some(path)),
+            onFalse: Effect.fail(
+              Config.ConfigError({
+                message: `Unable to find the tsConfigFilePath '${tsConfigFilePath}' in ${cwd}`
+              })
+            )
+          })
         }
-      }
-      const project = new ast.Project(options)
-      for (const file of files) {
-        project.addSourceFileAtPath(file.path)
-      }
-      return project
-    })
+      }))
+  )
+)
+
+/**
+ * Creates the project used to parse the source files. The compiler options are
+ * read from the `tsconfig.json` file (see `getTsConfigFilePath`), following any
+ * `extends` chain, and the `parseCompilerOptions` are layered on top of them.
+ * Without a `tsconfig.json` file, the `parseCompilerOptions` default to
+ * `strict: true`, otherwise the options of the file apply.
+ *
+ * @internal
+ */
+export const createProject = (files: ReadonlyArray<FileSystem.File>) =>
+  Effect.all([Config.Config, Process.Process, getTsConfigFilePath]).pipe(
+    Effect.flatMap(([config, process, tsConfigFilePath]) =>
+      pipe(
+        Option.match(tsConfigFilePath, {
+          onNone: () =>
+            Effect.logDebug(
+              `No ${DEFAULT_TS_CONFIG_FILE_NAME} found, using parseCompilerOptions only`
+            ),
+          onSome: (path) => Effect.logDebug(`Using compiler options from ${path}`)
+        }),
+        Effect.zipRight(process.cwd),
+        Effect.flatMap((cwd) => getParseCompilerOptions(config, cwd)),
+        // the declaration emitter only runs if the `declaration` option is set
+        Effect.map((compilerOptions): ast.CompilerOptions =>
+          config.useDeclarationEmit
+            ? { ...compilerOptions, declaration: true, emitDeclarationOnly: true, noEmit: false }
+            : compilerOptions
+        ),
+        Effect.map((compilerOptions) => {
+          const options: ast.ProjectOptions = Option.match(tsConfigFilePath, {
+            onNone: () => ({ compilerOptions: { strict: true, ...compilerOptions } }),
+            onSome: (tsConfigFilePath) => ({
+              tsConfigFilePath,
+              skipAddingFilesFromTsConfig: true,
+              compilerOptions
+            })
+          })
+          const project = new ast.Project(options)
+          for (const file of files) {
+            project.addSourceFileAtPath(file.path)
+          }
+          return project
+        })
+      )
+    )
   )
 
 /**
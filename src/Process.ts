@@ -13,6 +13,15 @@ import { Context, Effect, Layer } from "effect"
 export interface Process {
   readonly cwd: Effect.Effect<never, never, string>
   readonly platform: Effect.Effect<never, never, string>
+  /**
+   * The command-line arguments passed to the process, excluding the
+   * executable and script paths.
+   */
+  readonly argv: Effect.Effect<never, never, ReadonlyArray<string>>
+  /**
+   * Changes the current working directory of the process.
+   */
+  chdir(directory: string): Effect.Effect<never, never, void>
 }
 
 /**
@@ -29,6 +38,8 @@ export const ProcessLive = Layer.succeed(
   Process,
   Process.of({
     cwd: Effect.sync(() => process.cwd()),
-    platform: Effect.sync(() => process.platform)
+    platform: Effect.sync(() => process.platform),
+    argv: Effect.sync(() => process.argv.slice(2)),
+    chdir: (directory) => Effect.sync(() => process.chdir(directory))
   })
 )
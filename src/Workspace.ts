@@ -0,0 +1,198 @@
+/**
+ * @since 1.0.0
+ */
+import * as Schema from "@effect/schema/Schema"
+import chalk from "chalk"
+import { Effect, Option, Order as order, pipe, ReadonlyArray, String } from "effect"
+import { flow } from "effect/Function"
+import * as NodePath from "node:path"
+import * as Config from "./Config"
+import * as FileSystem from "./FileSystem"
+import * as Process from "./Process"
+
+const PACKAGE_JSON_FILE_NAME = "package.json"
+const PNPM_WORKSPACE_FILE_NAME = "pnpm-workspace.yaml"
+
+/**
+ * Represents a package of a monorepo workspace.
+ *
+ * @category model
+ * @since 1.0.0
+ */
+export interface Package {
+  readonly name: string
+  /**
+   * The absolute path of the directory containing the `package.json` file.
+   */
+  readonly path: string
+}
+
+/**
+ * @category constructors
+ * @since 1.0.0
+ */
+export const createPackage = (name: string, path: string): Package => ({
+  name,
+  path
+})
+
+/**
+ * @category instances
+ * @since 1.0.0
+ */
+export const Order: order.Order<Package> = order.mapInput(
+  String.Order,
+  (pkg: Package) => pkg.name
+)
+
+const unquote = (s: string): string => s.replace(/^(['"])(.*)\1$/, "$2")
+
+/**
+ * Extracts the package patterns from the content of a `pnpm-workspace.yaml`
+ * file, like:
+ *
+ * ```yaml
+ * packages:
+ *   - "packages/*"
+ *   - "!packages/legacy"
+ * ```
+ *
+ * @internal
+ */
+export const parsePnpmWorkspace = (content: string): ReadonlyArray<string> => {
+  const patterns: Array<string> = []
+  let isPackagesList = false
+  for (const line of content.split(/\r?\n/)) {
+    const uncommented = line.replace(/(^|\s)#.*$/, "").trimEnd()
+    if (uncommented.trim().length === 0) {
+      continue
+    }
+    if (/^\S/.test(uncommented)) {
+      isPackagesList = /^packages\s*:\s*$/.test(uncommented)
+      continue
+    }
+    const item = uncommented.match(/^\s+-\s*(.+)$/)
+    if (isPackagesList && item !== null) {
+      patterns.push(unquote(item[1].trim()))
+    }
+  }
+  return patterns
+}
+
+/**
+ * Extracts the package patterns from the `workspaces` field of a
+ * `package.json` file, which can either be an array of patterns or an object
+ * with a `packages` array (Yarn).
+ *
+ * @internal
+ */
+export const parsePackageJsonWorkspaces = (
+  packageJson: unknown
+): Option.Option<ReadonlyArray<string>> => {
+  const isStringArray = (u: unknown): u is ReadonlyArray<string> =>
+    Array.isArray(u) && u.every((s) => typeof s === "string")
+  if (typeof packageJson !== "object" || packageJson === null) {
+    return Option.none()
+  }
+  const workspaces = (packageJson as { readonly workspaces?: unknown }).workspaces
+  if (isStringArray(workspaces)) {
+    return Option.some(workspaces)
+  }
+  if (typeof workspaces === "object" && workspaces !== null) {
+    const packages = (workspaces as { readonly packages?: unknown }).packages
+    if (isStringArray(packages)) {
+      return Option.some(packages)
+    }
+  }
+  return Option.none()
+}
+
+const getWorkspacePatterns = (
+  cwd: string,
+  fileSystem: FileSystem.FileSystem
+) => {
+  const packageJsonPath = NodePath.join(cwd, PACKAGE_JSON_FILE_NAME)
+  const pnpmWorkspacePath = NodePath.join(cwd, PNPM_WORKSPACE_FILE_NAME)
+  return Effect.if(fileSystem.pathExists(pnpmWorkspacePath), {
+    onTrue: Effect.map(fileSystem.readFile(pnpmWorkspacePath), parsePnpmWorkspace),
+    onFalse: fileSystem.readJsonFile(packageJsonPath).pipe(
+      Effect.map(parsePackageJsonWorkspaces),
+      Effect.flatMap(Option.match({
+        onNone: () =>
+          Effect.fail(
+            Config.ConfigError({
+              message:
+                `Unable to find the workspace packages: no ${PNPM_WORKSPACE_FILE_NAME} file nor "workspaces" field in ${packageJsonPath}`
+            })
+          ),
+        onSome: Effect.succeed
+      }))
+    )
+  })
+}
+
+const PackageJsonSchema = Schema.struct({
+  name: Schema.string
+})
+
+const readPackage = (path: string, fileSystem: FileSystem.FileSystem) =>
+  Effect.flatMap(
+    fileSystem.readJsonFile(path),
+    (content) =>
+      Option.match(Schema.parseOption(PackageJsonSchema)(content), {
+        onNone: () =>
+          Effect.as(
+            Effect.logWarning(`Skipping ${chalk.black(path)}: missing package name`),
+            Option.none()
+          ),
+        onSome: (packageJson) =>
+          Effect.succeed(Option.some(createPackage(packageJson.name, NodePath.dirname(path))))
+      })
+  )
+
+/**
+ * Discovers the packages of the workspace rooted in the current working
+ * directory, using the `packages` listed in the `pnpm-workspace.yaml` file or,
+ * if there is none, the `workspaces` field of the `package.json` file.
+ *
+ * @category workspace
+ * @since 1.0.0
+ */
+export const getPackages: Effect.Effect<
+  FileSystem.FileSystem | Process.Process,
+  | Config.ConfigError
+  | FileSystem.ReadFileError
+  | FileSystem.ParseJsonError
+  | FileSystem.GlobError,
+  ReadonlyArray<Package>
+> = Effect.all([FileSystem.FileSystem, Process.Process]).pipe(
+  Effect.flatMap(([fileSystem, process]) =>
+    process.cwd.pipe(
+      Effect.flatMap((cwd) =>
+        getWorkspacePatterns(cwd, fileSystem).pipe(
+          Effect.flatMap((patterns) => {
+            const [excluded, included] = ReadonlyArray.partition(
+              patterns,
+              (pattern) => !pattern.startsWith("!")
+            )
+            const exclude = [
+              "**/node_modules/**",
+              ...ReadonlyArray.flatMap(excluded, (pattern) => {
+                const path = NodePath.join(cwd, pattern.slice(1))
+                return [path, NodePath.join(path, "**")]
+              })
+            ]
+            return Effect.forEach(
+              included,
+              (pattern) =>
+                fileSystem.glob(NodePath.join(cwd, pattern, PACKAGE_JSON_FILE_NAME), exclude)
+            )
+          }),
+          Effect.map(flow(ReadonlyArray.flatten, ReadonlyArray.dedupe)),
+          Effect.flatMap(Effect.forEach((path) => readPackage(path, fileSystem))),
+          Effect.map((packages) => pipe(ReadonlyArray.compact(packages), ReadonlyArray.sort(Order)))
+        )
+      )
+    )
+  )
+)
@@ -4,6 +4,19 @@
 import { Effect } from "effect"
 import * as Core from "./Core"
 
+export {
+  /**
+   * @category config
+   * @since 1.0.0
+   */
+  ConfigJsonSchema,
+  /**
+   * @category config
+   * @since 1.0.0
+   */
+  defineConfig
+} from "./Config"
+
 /**
  * @category main
  * @since 1.0.0
@@ -0,0 +1,355 @@
+import * as assert from "assert"
+import { Effect, Exit, Option } from "effect"
+import * as NodeFS from "node:fs"
+import * as NodePath from "node:path"
+import * as Config from "../src/Config"
+import * as FileSystem from "../src/FileSystem"
+import { setup } from "./utils"
+
+const isRecord = (u: unknown): u is Record<string, unknown> =>
+  typeof u === "object" && u !== null && !Array.isArray(u)
+
+describe.concurrent("Config", () => {
+  describe.concurrent("parseCommandLineArgs", () => {
+    const parse = (args: ReadonlyArray<string>) =>
+      Config.parseCommandLineArgs(args).pipe(Effect.runSyncExit, Exit.unannotate)
+
+    it("should return no overrides if there are no arguments", () => {
+      assert.deepStrictEqual(
+        parse([]),
+        Exit.succeed({ configPath: Option.none(), overrides: {} })
+      )
+    })
+
+    it("should parse options and flags", () => {
+      assert.deepStrictEqual(
+        parse([
+          "--config",
+          "docgen.ci.json",
+          "--src-dir",
+          "lib",
+          "--out-dir=site",
+          "--exclude",
+          "lib/internal/**",
+          "--exclude=lib/unstable/**",
+          "--no-examples",
+          "--workspace",
+          "--log-level",
+          "warning"
+        ]),
+        Exit.succeed({
+          configPath: Option.some("docgen.ci.json"),
+          overrides: {
+            srcDir: "lib",
+            outDir: "site",
+            exclude: ["lib/internal/**", "lib/unstable/**"],
+            runExamples: false,
+            workspace: true,
+            logLevel: "Warning"
+          }
+        })
+      )
+    })
+
+    it("should fail on unknown options", () => {
+      assert.deepStrictEqual(
+        parse(["--srcdir", "lib"]),
+        Exit.fail(Config.ConfigError({ message: "Unknown command-line option '--srcdir'" }))
+      )
+    })
+
+    it("should fail on options without a value", () => {
+      assert.deepStrictEqual(
+        parse(["--out-dir"]),
+        Exit.fail(
+          Config.ConfigError({ message: "Missing value for command-line option '--out-dir'" })
+        )
+      )
+      assert.deepStrictEqual(
+        parse(["--src-dir", "--no-examples"]),
+        Exit.fail(
+          Config.ConfigError({ message: "Missing value for command-line option '--src-dir'" })
+        )
+      )
+    })
+  })
+
+  describe.concurrent("readConfigFile", () => {
+    const dir = setup()
+
+    const read = (fileName: string, content: string) => {
+      const path = NodePath.join(dir, fileName)
+      NodeFS.writeFileSync(path, content)
+      return Effect.runPromiseExit(
+        Config.readConfigFile(path).pipe(Effect.provideLayer(FileSystem.FileSystemLive))
+      ).then(Exit.unannotate)
+    }
+
+    it("should read a JSON configuration file", async () => {
+      assert.deepStrictEqual(
+        await read("docgen.json", `{ "srcDir": "lib" }`),
+        Exit.succeed({ srcDir: "lib" })
+      )
+    })
+
+    it("should evaluate a TypeScript configuration file", async () => {
+      assert.deepStrictEqual(
+        await read(
+          "docgen.config.ts",
+          `const exclude: Array<string> = ["a", "b"].map((dir) => \`src/\${dir}/**\`)
+export default { exclude }`
+        ),
+        Exit.succeed({ exclude: ["src/a/**", "src/b/**"] })
+      )
+    })
+
+    it("should import an ES module configuration file", async () => {
+      assert.deepStrictEqual(
+        await read("docgen.config.mjs", `export default { outDir: "site" }`),
+        Exit.succeed({ outDir: "site" })
+      )
+    })
+
+    it("should require a CommonJS configuration file", async () => {
+      assert.deepStrictEqual(
+        await read("preset.cjs", `module.exports = { enforceExamples: true }`),
+        Exit.succeed({ enforceExamples: true })
+      )
+    })
+
+    it("should fail on unsupported configuration files", async () => {
+      assert.deepStrictEqual(
+        await read("docgen.yaml", "srcDir: lib"),
+        Exit.fail(
+          Config.ConfigError({
+            message: `Unsupported configuration file '${
+              NodePath.join(dir, "docgen.yaml")
+            }', expected one of: .json, .ts, .mjs, .cjs, .js`
+          })
+        )
+      )
+    })
+
+    it("should fail if a configuration module cannot be evaluated", async () => {
+      const exit = await read("broken.config.ts", `throw new Error("boom")`)
+      assert.deepStrictEqual(
+        exit,
+        Exit.fail(
+          Config.ConfigError({
+            message: `Unable to load configuration file '${
+              NodePath.join(dir, "broken.config.ts")
+            }': boom`
+          })
+        )
+      )
+    })
+  })
+
+  describe.concurrent("getKeySuggestion", () => {
+    it("should suggest the closest configuration key", () => {
+      assert.deepStrictEqual(
+        Config.getKeySuggestion("enforceExample"),
+        Option.some("enforceExamples")
+      )
+      assert.deepStrictEqual(Config.getKeySuggestion("srcdir"), Option.some("srcDir"))
+      assert.deepStrictEqual(Config.getKeySuggestion("out_dir"), Option.some("outDir"))
+    })
+
+    it("should not suggest unrelated configuration keys", () => {
+      assert.deepStrictEqual(Config.getKeySuggestion("color"), Option.none())
+    })
+  })
+
+  describe.concurrent("ConfigJsonSchema", () => {
+    it("should describe every configuration key", () => {
+      const schema = Config.ConfigJsonSchema
+      assert.strictEqual(schema.type, "object")
+      assert.strictEqual(schema.additionalProperties, false)
+      assert.strictEqual(schema.required, undefined)
+      const properties = schema.properties
+      assert.ok(isRecord(properties))
+      assert.deepStrictEqual(properties.srcDir, { type: "string" })
+      assert.deepStrictEqual(properties.exclude, {
+        type: "array",
+        items: { type: "string" }
+      })
+      assert.deepStrictEqual(properties.logLevel, {
+        enum: ["All", "Trace", "Debug", "Info", "Warning", "Error", "Fatal", "None"]
+      })
+      assert.deepStrictEqual(properties.parseCompilerOptions, {
+        type: "object",
+        properties: {},
+        additionalProperties: {}
+      })
+      assert.deepStrictEqual(properties.extends, { type: "string" })
+      assert.deepStrictEqual(properties.tsConfigFilePath, { type: "string" })
+    })
+  })
+
+  describe.concurrent("resolveConfigFile", () => {
+    const writeFile = (path: string, content: string) => {
+      NodeFS.mkdirSync(NodePath.dirname(path), { recursive: true })
+      NodeFS.writeFileSync(path, content)
+      return path
+    }
+
+    const resolve = (path: string) =>
+      Effect.runPromiseExit(
+        Config.resolveConfigFile(path).pipe(Effect.provideLayer(FileSystem.FileSystemLive))
+      ).then(Exit.unannotate)
+
+    it("should merge the presets recursively, the extending file winning", async () => {
+      const dir = setup()
+      writeFile(
+        NodePath.join(dir, "presets", "base.json"),
+        JSON.stringify({
+          theme: "org/theme",
+          enforceDescriptions: true,
+          exclude: ["src/internal/**"],
+          parseCompilerOptions: { strict: true, paths: { "a": ["src/a.ts"] } }
+        })
+      )
+      writeFile(
+        NodePath.join(dir, "presets", "strict.json"),
+        JSON.stringify({ extends: "./base.json", enforceExamples: true })
+      )
+      const path = writeFile(
+        NodePath.join(dir, "docgen.json"),
+        JSON.stringify({
+          extends: "./presets/strict.json",
+          exclude: [],
+          parseCompilerOptions: { paths: { "b": ["src/b.ts"] } }
+        })
+      )
+      assert.deepStrictEqual(
+        await resolve(path),
+        Exit.succeed({
+          theme: "org/theme",
+          enforceDescriptions: true,
+          enforceExamples: true,
+          exclude: [],
+          parseCompilerOptions: {
+            strict: true,
+            paths: { "a": ["src/a.ts"], "b": ["src/b.ts"] }
+          }
+        })
+      )
+    })
+
+    it("should resolve the preset exported by a package", async () => {
+      const dir = setup()
+      const presetDir = NodePath.join(dir, "node_modules", "@org", "docgen-preset")
+      writeFile(
+        NodePath.join(presetDir, "package.json"),
+        JSON.stringify({ name: "@org/docgen-preset", exports: { ".": "./docgen.json" } })
+      )
+      writeFile(NodePath.join(presetDir, "docgen.json"), JSON.stringify({ enableSearch: false }))
+      const path = writeFile(
+        NodePath.join(dir, "docgen.json"),
+        JSON.stringify({ extends: "@org/docgen-preset", srcDir: "lib" })
+      )
+      assert.deepStrictEqual(
+        await resolve(path),
+        Exit.succeed({ enableSearch: false, srcDir: "lib" })
+      )
+    })
+
+    it("should resolve the CommonJS preset exported by a package", async () => {
+      const dir = setup()
+      const presetDir = NodePath.join(dir, "node_modules", "docgen-preset")
+      writeFile(
+        NodePath.join(presetDir, "package.json"),
+        JSON.stringify({ name: "docgen-preset", main: "index.js" })
+      )
+      writeFile(NodePath.join(presetDir, "index.js"), "module.exports = { enableSearch: false }")
+      const path = writeFile(
+        NodePath.join(dir, "docgen.json"),
+        JSON.stringify({ extends: "docgen-preset", srcDir: "lib" })
+      )
+      assert.deepStrictEqual(
+        await resolve(path),
+        Exit.succeed({ enableSearch: false, srcDir: "lib" })
+      )
+    })
+
+    it("should tell apart an explicit tsConfigFilePath", async () => {
+      const dir = setup()
+      const path = writeFile(
+        NodePath.join(dir, "docgen.json"),
+        JSON.stringify({ tsConfigFilePath: "tsconfig.json" })
+      )
+      assert.deepStrictEqual(
+        await resolve(path),
+        Exit.succeed({ tsConfigFilePath: Option.some("tsconfig.json") })
+      )
+    })
+
+    it("should fail on missing presets", async () => {
+      const dir = setup()
+      const path = writeFile(
+        NodePath.join(dir, "docgen.json"),
+        JSON.stringify({ extends: "./missing.json" })
+      )
+      assert.deepStrictEqual(
+        await resolve(path),
+        Exit.fail(
+          Config.ConfigError({
+            message: `Unable to find configuration preset './missing.json' extended by '${path}'`
+          })
+        )
+      )
+    })
+
+    it("should fail on unknown keys", async () => {
+      const dir = setup()
+      const path = writeFile(
+        NodePath.join(dir, "docgen.json"),
+        JSON.stringify({ $schema: "schema.json", enforceExample: true, color: "red" })
+      )
+      assert.deepStrictEqual(
+        await resolve(path),
+        Exit.fail(
+          Config.ConfigError({
+            message:
+              `Unknown configuration key 'enforceExample' in '${path}', did you mean 'enforceExamples'?\n`
+              + `Unknown configuration key 'color' in '${path}'`
+          })
+        )
+      )
+    })
+
+    it("should fail on unknown keys in the overrides", async () => {
+      const dir = setup()
+      const path = writeFile(
+        NodePath.join(dir, "docgen.json"),
+        JSON.stringify({
+          overrides: [{ files: "src/**", enforceVersion: false }, {
+            files: "src/**",
+            enforceExample: true
+          }]
+        })
+      )
+      assert.deepStrictEqual(
+        await resolve(path),
+        Exit.fail(
+          Config.ConfigError({
+            message:
+              `Unknown configuration key 'enforceExample' in '${path}' (overrides[1]), did you mean 'enforceExamples'?`
+          })
+        )
+      )
+    })
+
+    it("should fail on circular presets", async () => {
+      const dir = setup()
+      const a = writeFile(NodePath.join(dir, "a.json"), JSON.stringify({ extends: "./b.json" }))
+      const b = writeFile(NodePath.join(dir, "b.json"), JSON.stringify({ extends: "./a.json" }))
+      assert.deepStrictEqual(
+        await resolve(a),
+        Exit.fail(
+          Config.ConfigError({ message: `Circular configuration presets: ${a} -> ${b} -> ${a}` })
+        )
+      )
+    })
+  })
+})
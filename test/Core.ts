@@ -0,0 +1,245 @@
+import * as assert from "assert"
+import { Effect, Option } from "effect"
+import * as NodeFS from "node:fs"
+import * as NodeOS from "node:os"
+import * as NodePath from "node:path"
+import * as Config from "../src/Config"
+import * as Core from "../src/Core"
+import * as FileSystem from "../src/FileSystem"
+import * as Process from "../src/Process"
+import { makeProcess, setup } from "./utils"
+
+const defaultConfig: Config.Config = {
+  projectName: "docgen",
+  projectHomepage: "https://github.com/effect-ts/docgen",
+  srcDir: "src",
+  outDir: "docs",
+  theme: "pmarsceill/just-the-docs",
+  enableSearch: true,
+  enforceDescriptions: false,
+  enforceExamples: false,
+  enforceVersion: true,
+  runExamples: true,
+  logLevel: "Debug",
+  exclude: [],
+  tsConfigFilePath: Option.none(),
+  parseCompilerOptions: {},
+  examplesCompilerOptions: {},
+  workspace: false,
+  overrides: [],
+  useExports: false,
+  useDeclarationEmit: false,
+  emitJsonSchemas: false
+}
+
+describe.concurrent("Core", () => {
+  describe.concurrent("getExamplesCompilerOptions", () => {
+    const cwd = NodePath.resolve("project")
+
+    it("should re-root the paths relative to the examples directory", () => {
+      assert.deepStrictEqual(
+        Core.getExamplesCompilerOptions({
+          ...defaultConfig,
+          parseCompilerOptions: {
+            strict: true,
+            paths: {
+              "@effect/docgen": ["./src/index.ts"],
+              "@effect/docgen/*": ["src/*"]
+            }
+          }
+        }, cwd),
+        {
+          strict: true,
+          paths: {
+            "@effect/docgen": ["../../src/index.ts"],
+            "@effect/docgen/*": ["../../src/*"]
+          }
+        }
+      )
+    })
+
+    it("should re-root the baseUrl and keep the paths relative to it", () => {
+      assert.deepStrictEqual(
+        Core.getExamplesCompilerOptions({
+          ...defaultConfig,
+          outDir: "site/docs",
+          parseCompilerOptions: {
+            baseUrl: ".",
+            paths: { "@effect/docgen/*": ["src/*"] }
+          }
+        }, cwd),
+        {
+          baseUrl: "../../..",
+          paths: { "@effect/docgen/*": ["src/*"] }
+        }
+      )
+    })
+
+    it("should let the examplesCompilerOptions override individual keys", () => {
+      assert.deepStrictEqual(
+        Core.getExamplesCompilerOptions({
+          ...defaultConfig,
+          parseCompilerOptions: {
+            strict: true,
+            target: "ES2021",
+            paths: { "@effect/docgen": ["./src/index.ts"] }
+          },
+          examplesCompilerOptions: { strict: false }
+        }, cwd),
+        {
+          strict: false,
+          target: "ES2021",
+          paths: { "@effect/docgen": ["../../src/index.ts"] }
+        }
+      )
+    })
+  })
+
+  describe.concurrent("getWorkspacePackages", () => {
+    it("should merge the configuration file of each package into the one of the workspace, before the command-line overrides", async () => {
+      const cwd = setup({
+        "package.json": JSON.stringify({ name: "root" }),
+        "pnpm-workspace.yaml": "packages:\n  - packages/*\n",
+        "packages/a/package.json": JSON.stringify({
+          name: "@org/a",
+          homepage: "https://github.com/org/a"
+        }),
+        "packages/a/docgen.json": JSON.stringify({ srcDir: "lib", runExamples: true }),
+        "packages/b/package.json": JSON.stringify({ name: "@org/b" })
+      })
+      const packages = await Core.getWorkspacePackages.pipe(
+        Effect.provideService(Config.Config, {
+          ...defaultConfig,
+          outDir: "site",
+          runExamples: false,
+          workspace: true
+        }),
+        Effect.provideService(
+          Process.Process,
+          // the configuration file of the workspace doesn't apply to the packages
+          makeProcess(cwd, ["--config", "missing.json", "--workspace", "--no-examples"])
+        ),
+        Effect.provideLayer(FileSystem.FileSystemLive),
+        Effect.runPromise
+      )
+      assert.deepStrictEqual(
+        packages.map(({ config, name, path }) => ({
+          name,
+          path,
+          projectName: config.projectName,
+          projectHomepage: config.projectHomepage,
+          srcDir: config.srcDir,
+          outDir: config.outDir,
+          runExamples: config.runExamples
+        })),
+        [
+          {
+            name: "@org/a",
+            path: NodePath.join(cwd, "packages", "a"),
+            projectName: "@org/a",
+            projectHomepage: "https://github.com/org/a",
+            srcDir: "lib",
+            outDir: "site",
+            runExamples: false
+          },
+          {
+            name: "@org/b",
+            path: NodePath.join(cwd, "packages", "b"),
+            projectName: "@org/b",
+            projectHomepage: defaultConfig.projectHomepage,
+            srcDir: "src",
+            outDir: "site",
+            runExamples: false
+          }
+        ]
+      )
+    })
+  })
+
+  describe.concurrent("getCatalogMarkdownFile", () => {
+    const run = <E, A>(eff: Effect.Effect<FileSystem.FileSystem, E, A>) =>
+      eff.pipe(Effect.provideLayer(FileSystem.FileSystemLive), Effect.runPromise)
+
+    it("should return the page of a catalog listing something", async () => {
+      const path = NodePath.join(NodeOS.tmpdir(), "services.md")
+      assert.deepStrictEqual(
+        await run(Core.getCatalogMarkdownFile(path, Option.some("# Services"))),
+        Option.some(FileSystem.makeFile(path, "# Services", true))
+      )
+    })
+
+    it("should delete the page left by a previous run if the catalog is empty", async () => {
+      const path = NodePath.join(setup({ "errors.md": "# Errors" }), "errors.md")
+      assert.deepStrictEqual(
+        await run(Core.getCatalogMarkdownFile(path, Option.none())),
+        Option.none()
+      )
+      assert.strictEqual(NodeFS.existsSync(path), false)
+      // there is nothing to delete on the next run
+      assert.deepStrictEqual(
+        await run(Core.getCatalogMarkdownFile(path, Option.none())),
+        Option.none()
+      )
+    })
+  })
+
+  describe.concurrent("getExamplesTsConfig", () => {
+    const cwd = NodePath.resolve("project")
+    const config: Config.Config = {
+      ...defaultConfig,
+      parseCompilerOptions: {
+        target: "ES2021",
+        paths: { "@effect/docgen": ["./src/index.ts"] }
+      }
+    }
+
+    it("should extend the tsconfig.json file used to parse the source files", () => {
+      assert.deepStrictEqual(
+        Core.getExamplesTsConfig(config, cwd, Option.some(NodePath.join(cwd, "tsconfig.json"))),
+        {
+          extends: "../../tsconfig.json",
+          include: ["./**/*.ts"],
+          compilerOptions: {
+            types: [],
+            rootDir: "../..",
+            noUnusedLocals: false,
+            noUnusedParameters: false,
+            target: "ES2021",
+            paths: { "@effect/docgen": ["../../src/index.ts"] }
+          }
+        }
+      )
+    })
+
+    it("should let the examplesCompilerOptions set the settings reset for the examples", () => {
+      assert.deepStrictEqual(
+        Core.getExamplesTsConfig(
+          { ...config, examplesCompilerOptions: { types: ["node"], noUnusedLocals: true } },
+          cwd,
+          Option.some(NodePath.join(cwd, "tsconfig.json"))
+        ).compilerOptions,
+        {
+          types: ["node"],
+          rootDir: "../..",
+          noUnusedLocals: true,
+          noUnusedParameters: false,
+          target: "ES2021",
+          paths: { "@effect/docgen": ["../../src/index.ts"] }
+        }
+      )
+    })
+
+    it("should default to strict mode without a tsconfig.json file, as the parser does", () => {
+      assert.deepStrictEqual(
+        Core.getExamplesTsConfig(config, cwd, Option.none()),
+        {
+          compilerOptions: {
+            strict: true,
+            target: "ES2021",
+            paths: { "@effect/docgen": ["../../src/index.ts"] }
+          }
+        }
+      )
+    })
+  })
+})
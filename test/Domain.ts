@@ -35,6 +35,8 @@ describe.concurrent("Domain", () => {
         [],
         [],
         [],
+        [],
+        [],
         []
       )
 
@@ -47,7 +49,9 @@ describe.concurrent("Domain", () => {
         typeAliases: [],
         constants: [],
         exports: [],
-        namespaces: []
+        namespaces: [],
+        enums: [],
+        reexports: []
       })
     })
 
@@ -73,22 +77,81 @@ describe.concurrent("Domain", () => {
     it("Constant", () => {
       const c = Domain.createConstant(
         documentable("foo"),
-        "declare const foo: string"
+        "declare const foo: Tag<Foo, Foo>",
+        Option.none(),
+        Option.some("Foo"),
+        Option.none()
       )
 
       assert.deepStrictEqual(c, {
         _tag: "Constant",
         ...documentable("foo"),
-        signature: "declare const foo: string"
+        signature: "declare const foo: Tag<Foo, Foo>",
+        effect: Option.none(),
+        service: Option.some("Foo"),
+        schema: Option.none()
       })
     })
 
     it("Method", () => {
-      const m = Domain.createMethod(documentable("foo"), ["foo(): string"])
+      const m = Domain.createMethod(
+        documentable("foo"),
+        ["foo(): string"],
+        [Domain.createParameter("a", Option.some("a description"))],
+        Option.some("a string"),
+        [],
+        Option.none(),
+        []
+      )
 
       assert.deepStrictEqual(m, {
         ...documentable("foo"),
-        signatures: ["foo(): string"]
+        signatures: ["foo(): string"],
+        parameters: [{ name: "a", description: Option.some("a description") }],
+        returns: Option.some("a string"),
+        throws: [],
+        effect: Option.none(),
+        overloads: []
+      })
+    })
+
+    it("Overload", () => {
+      const o = Domain.createOverload(
+        documentable("foo"),
+        "foo(a: string): string",
+        [],
+        Option.none(),
+        [],
+        Option.none()
+      )
+
+      assert.deepStrictEqual(o, {
+        ...documentable("foo"),
+        signature: "foo(a: string): string",
+        parameters: [],
+        returns: Option.none(),
+        throws: [],
+        effect: Option.none()
+      })
+    })
+
+    it("EffectType", () => {
+      const e = Domain.createEffectType(
+        "Effect",
+        ["Database"],
+        ["NotFound", "Timeout"],
+        ["User"],
+        ["Database", "NotFound", "Timeout", "User"],
+        ["/src/Errors.ts#NotFound", "/src/Errors.ts#Timeout"]
+      )
+
+      assert.deepStrictEqual(e, {
+        name: "Effect",
+        requirements: ["Database"],
+        errors: ["NotFound", "Timeout"],
+        success: ["User"],
+        references: ["Database", "NotFound", "Timeout", "User"],
+        errorDeclarations: ["/src/Errors.ts#NotFound", "/src/Errors.ts#Timeout"]
       })
     })
 
@@ -102,24 +165,40 @@ describe.concurrent("Domain", () => {
     })
 
     it("Interface", () => {
-      const i = Domain.createInterface(documentable("A"), "interface A {}")
+      const i = Domain.createInterface(documentable("A"), "interface A {}", [], [], Option.none())
 
       assert.deepStrictEqual(i, {
         _tag: "Interface",
         ...documentable("A"),
-        signature: "interface A {}"
+        signature: "interface A {}",
+        methods: [],
+        properties: [],
+        error: Option.none()
       })
     })
 
     it("Function", () => {
-      const f = Domain.createFunction(documentable("func"), [
-        "declare function func(): string"
-      ])
+      const f = Domain.createFunction(
+        documentable("func"),
+        ["declare function func(): string"],
+        [],
+        Option.none(),
+        ["Error: always"],
+        Option.none(),
+        [],
+        ["data-last"]
+      )
 
       assert.deepStrictEqual(f, {
         _tag: "Function",
         ...documentable("func"),
-        signatures: ["declare function func(): string"]
+        signatures: ["declare function func(): string"],
+        parameters: [],
+        returns: Option.none(),
+        throws: ["Error: always"],
+        effect: Option.none(),
+        overloads: [],
+        callStyles: ["data-last"]
       })
     })
 
@@ -145,6 +224,18 @@ describe.concurrent("Domain", () => {
         signature: "export declare const foo: string"
       })
     })
+
+    it("Enum", () => {
+      const m = Domain.createEnumMember(documentable("A"), Option.some(0))
+      const e = Domain.createEnum(documentable("E"), "export declare enum E {\n  A = 0\n}", [m])
+
+      assert.deepStrictEqual(e, {
+        _tag: "Enum",
+        ...documentable("E"),
+        signature: "export declare enum E {\n  A = 0\n}",
+        members: [{ ...documentable("A"), value: Option.some(0) }]
+      })
+    })
   })
 
   describe.concurrent("instances", () => {
@@ -158,6 +249,8 @@ describe.concurrent("Domain", () => {
         [],
         [],
         [],
+        [],
+        [],
         []
       )
 
@@ -170,6 +263,8 @@ describe.concurrent("Domain", () => {
         [],
         [],
         [],
+        [],
+        [],
         []
       )
 
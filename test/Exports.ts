@@ -0,0 +1,202 @@
+import * as assert from "assert"
+import { Effect, Exit, Option } from "effect"
+import * as NodePath from "node:path"
+import * as Config from "../src/Config"
+import * as Exports from "../src/Exports"
+import * as FileSystem from "../src/FileSystem"
+import * as Process from "../src/Process"
+import { makeProcess, setup } from "./utils"
+
+const defaultConfig: Config.Config = {
+  projectName: "docgen",
+  projectHomepage: "https://github.com/effect-ts/docgen",
+  srcDir: "src",
+  outDir: "docs",
+  theme: "pmarsceill/just-the-docs",
+  enableSearch: true,
+  enforceDescriptions: false,
+  enforceExamples: false,
+  enforceVersion: true,
+  runExamples: true,
+  logLevel: "Debug",
+  exclude: [],
+  tsConfigFilePath: Option.none(),
+  parseCompilerOptions: {},
+  examplesCompilerOptions: {},
+  workspace: false,
+  overrides: [],
+  useExports: true,
+  useDeclarationEmit: false,
+  emitJsonSchemas: false
+}
+
+describe.concurrent("Exports", () => {
+  describe.concurrent("getEntryPoints", () => {
+    it("should read a single target", () => {
+      assert.deepStrictEqual(Exports.getEntryPoints("./dist/index.js"), [
+        { subpath: ".", targets: ["./dist/index.js"] }
+      ])
+    })
+
+    it("should read the targets of every condition", () => {
+      assert.deepStrictEqual(
+        Exports.getEntryPoints({
+          types: "./dist/dts/index.d.ts",
+          import: "./dist/esm/index.js",
+          require: "./dist/cjs/index.js"
+        }),
+        [{
+          subpath: ".",
+          targets: ["./dist/dts/index.d.ts", "./dist/esm/index.js", "./dist/cjs/index.js"]
+        }]
+      )
+    })
+
+    it("should read the subpaths, ignoring the ones which are not modules", () => {
+      assert.deepStrictEqual(
+        Exports.getEntryPoints({
+          ".": { import: { types: "./dist/index.d.mts", default: "./dist/index.mjs" } },
+          "./package.json": "./package.json",
+          "./internal/*": null,
+          "./*": "./dist/*.js"
+        }),
+        [
+          { subpath: ".", targets: ["./dist/index.d.mts", "./dist/index.mjs"] },
+          { subpath: "./*", targets: ["./dist/*.js"] }
+        ]
+      )
+    })
+  })
+
+  it("getExcludedSubpaths", () => {
+    assert.deepStrictEqual(
+      Exports.getExcludedSubpaths({
+        ".": "./dist/index.js",
+        "./internal/*": null,
+        "./*": "./dist/*.js"
+      }),
+      ["./internal/*"]
+    )
+    assert.deepStrictEqual(Exports.getExcludedSubpaths("./dist/index.js"), [])
+  })
+
+  describe.concurrent("resolveEntryPoint", () => {
+    const paths = ["index.ts", "Option.ts", "data/Either.ts", "data/index.ts"]
+
+    it("should map the build artifacts to the source files", () => {
+      assert.deepStrictEqual(
+        Exports.resolveEntryPoint({ subpath: ".", targets: ["./dist/esm/index.js"] }, paths),
+        ["index.ts"]
+      )
+      assert.deepStrictEqual(
+        Exports.resolveEntryPoint(
+          { subpath: "./data", targets: ["./build/data/index.d.ts"] },
+          paths
+        ),
+        ["data/index.ts"]
+      )
+      assert.deepStrictEqual(
+        Exports.resolveEntryPoint({ subpath: "./Option", targets: ["./src/Option.ts"] }, paths),
+        ["Option.ts"]
+      )
+    })
+
+    it("should expand the wildcard targets", () => {
+      assert.deepStrictEqual(
+        Exports.resolveEntryPoint({ subpath: "./data/*", targets: ["./dist/data/*.js"] }, paths),
+        ["data/Either.ts"]
+      )
+    })
+
+    it("should leave out the excluded subpaths of the wildcard entry points", () => {
+      assert.deepStrictEqual(
+        Exports.resolveEntryPoint(
+          { subpath: "./*", targets: ["./dist/*.js"] },
+          paths,
+          ["./data/*", "./Option"]
+        ),
+        ["data/index.ts"]
+      )
+      assert.deepStrictEqual(
+        Exports.resolveEntryPoint(
+          { subpath: "./data/*", targets: ["./dist/data/*.js"] },
+          paths,
+          ["./data/internal/*"]
+        ),
+        ["data/Either.ts"]
+      )
+    })
+
+    it("should return no source files for unknown targets", () => {
+      assert.deepStrictEqual(
+        Exports.resolveEntryPoint({ subpath: "./Stream", targets: ["./dist/Stream.js"] }, paths),
+        []
+      )
+    })
+  })
+
+  it("getReexports", () => {
+    assert.deepStrictEqual(
+      Exports.getReexports(`import * as A from "./A"
+export * from "./B"
+export * as C from "./C.js"
+export { d } from "./internal/d"
+export { e } from "effect"
+export const f = 1`),
+      ["./B", "./C.js", "./internal/d"]
+    )
+  })
+
+  describe.concurrent("getPublicFiles", () => {
+    const getPublicFiles = (exports: unknown, files: ReadonlyArray<FileSystem.File>) => {
+      const cwd = setup({ "package.json": JSON.stringify({ exports }) })
+      return Effect.runPromiseExit(
+        Exports.getPublicFiles(files).pipe(
+          Effect.provideService(Config.Config, defaultConfig),
+          Effect.provideService(Process.Process, makeProcess(cwd)),
+          Effect.provideLayer(FileSystem.FileSystemLive)
+        )
+      ).then(Exit.unannotate)
+    }
+
+    const files = [
+      FileSystem.makeFile(NodePath.join("src", "index.ts"), `export * as A from "./A"`),
+      FileSystem.makeFile(NodePath.join("src", "A.ts"), `export * from "./internal/a"`),
+      FileSystem.makeFile(NodePath.join("src", "internal", "a.ts"), `export const a = 1`),
+      FileSystem.makeFile(NodePath.join("src", "B.ts"), `export const b = 1`)
+    ]
+
+    it("should keep the modules reachable from the entry points", async () => {
+      assert.deepStrictEqual(
+        await getPublicFiles({ ".": "./dist/index.js" }, files),
+        Exit.succeed(files.slice(0, 3))
+      )
+    })
+
+    it("should leave out the subpaths excluded by a null target", async () => {
+      assert.deepStrictEqual(
+        await getPublicFiles({ "./*": "./dist/*.js", "./internal/*": null }, files),
+        Exit.succeed(files.slice(1))
+      )
+      assert.deepStrictEqual(
+        await getPublicFiles({ "./*": "./dist/*.js", "./internal/*": null }, [
+          files[3],
+          FileSystem.makeFile(NodePath.join("src", "internal", "b.ts"), `export const b = 1`)
+        ]),
+        Exit.succeed([files[3]])
+      )
+    })
+
+    it("should fail if an entry point doesn't map to a source file", async () => {
+      assert.deepStrictEqual(
+        await getPublicFiles({ ".": "./dist/index.js", "./C": "./dist/C.js" }, files),
+        Exit.fail(
+          Config.ConfigError({
+            message:
+              "The exported entry point './C' (./dist/C.js) doesn't map to any documented source file"
+          })
+        )
+      )
+    })
+  })
+})
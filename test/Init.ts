@@ -0,0 +1,159 @@
+import * as assert from "assert"
+import { Effect, Exit, Option } from "effect"
+import * as NodeFS from "node:fs"
+import * as NodePath from "node:path"
+import * as Config from "../src/Config"
+import * as FileSystem from "../src/FileSystem"
+import * as Init from "../src/Init"
+import * as Process from "../src/Process"
+import { makeProcess, setup } from "./utils"
+
+describe.concurrent("Init", () => {
+  describe.concurrent("getInitialConfig", () => {
+    const cwd = NodePath.resolve("project")
+
+    it("should map the package name to the source directory", () => {
+      assert.deepStrictEqual(
+        Init.getInitialConfig(
+          { name: "@org/pkg", srcDir: "src", isMapped: false, baseUrl: Option.none() },
+          cwd
+        ),
+        {
+          $schema: "./node_modules/@effect/docgen/schema.json",
+          parseCompilerOptions: {
+            paths: { "@org/pkg": ["./src/index.ts"], "@org/pkg/*": ["./src/*"] }
+          }
+        }
+      )
+    })
+
+    it("should map the package name relative to the baseUrl of the tsconfig.json file", () => {
+      assert.deepStrictEqual(
+        Init.getInitialConfig(
+          { name: "pkg", srcDir: "lib", isMapped: false, baseUrl: Option.some("./config") },
+          cwd
+        ),
+        {
+          $schema: "./node_modules/@effect/docgen/schema.json",
+          srcDir: "lib",
+          parseCompilerOptions: {
+            baseUrl: "./config",
+            paths: { "pkg": ["../lib/index.ts"], "pkg/*": ["../lib/*"] }
+          }
+        }
+      )
+    })
+
+    it("should leave the mapping to the tsconfig.json file, if any", () => {
+      assert.deepStrictEqual(
+        Init.getInitialConfig(
+          { name: "pkg", srcDir: "lib", isMapped: true, baseUrl: Option.some(".") },
+          cwd
+        ),
+        {
+          $schema: "./node_modules/@effect/docgen/schema.json",
+          srcDir: "lib"
+        }
+      )
+    })
+  })
+
+  describe.concurrent("init", () => {
+    const init = (cwd: string, args: ReadonlyArray<string>) =>
+      Effect.runPromiseExit(
+        Init.init(args).pipe(
+          Effect.provideService(Process.Process, makeProcess(cwd)),
+          Effect.provideLayer(FileSystem.FileSystemLive)
+        )
+      ).then(Exit.unannotate)
+
+    const readJson = (path: string) => JSON.parse(NodeFS.readFileSync(path, "utf8"))
+
+    it("should write docgen.json and add the docs script", async () => {
+      const cwd = setup({
+        "package.json": JSON.stringify({ name: "pkg", scripts: { test: "vitest" } }),
+        "tsconfig.json": `{
+  // comments are allowed
+  "compilerOptions": { "baseUrl": ".", "paths": { "pkg": ["src/main.ts"], "other": ["x.ts"] } }
+}`
+      })
+      assert.deepStrictEqual(await init(cwd, []), Exit.unit)
+      assert.deepStrictEqual(readJson(NodePath.join(cwd, "docgen.json")), {
+        $schema: "./node_modules/@effect/docgen/schema.json"
+      })
+      assert.deepStrictEqual(readJson(NodePath.join(cwd, "package.json")).scripts, {
+        test: "vitest",
+        docs: "docgen"
+      })
+    })
+
+    it("should follow the extends chain of the tsconfig.json file", async () => {
+      const cwd = setup({
+        "package.json": JSON.stringify({ name: "pkg", version: "1.0.0" }),
+        "config/tsconfig.base.json": JSON.stringify({
+          compilerOptions: { rootDir: "../lib", baseUrl: ".", paths: { "other": ["../other.ts"] } }
+        }),
+        "tsconfig.json": JSON.stringify({
+          extends: "./config/tsconfig.base",
+          compilerOptions: { strict: true }
+        })
+      })
+      assert.deepStrictEqual(await init(cwd, []), Exit.unit)
+      const config = readJson(NodePath.join(cwd, "docgen.json"))
+      assert.deepStrictEqual(config.srcDir, "lib")
+      assert.deepStrictEqual(config.parseCompilerOptions, {
+        baseUrl: "./config",
+        paths: { "pkg": ["../lib/index.ts"], "pkg/*": ["../lib/*"] }
+      })
+      assert.deepStrictEqual(readJson(NodePath.join(cwd, "package.json")), {
+        name: "pkg",
+        version: "1.0.0",
+        scripts: { docs: "docgen" }
+      })
+    })
+
+    it("should fail if the tsconfig.json file extends a missing file", async () => {
+      const cwd = setup({
+        "package.json": JSON.stringify({ name: "pkg" }),
+        "tsconfig.json": JSON.stringify({ extends: "./tsconfig.base.json" })
+      })
+      assert.deepStrictEqual(
+        await init(cwd, []),
+        Exit.fail(
+          Config.ConfigError({
+            message: `Unable to find './tsconfig.base.json' extended by '${
+              NodePath.join(cwd, "tsconfig.json")
+            }'`
+          })
+        )
+      )
+    })
+
+    it("should refuse to overwrite docgen.json unless --force is given", async () => {
+      const cwd = setup({
+        "package.json": JSON.stringify({ name: "pkg", scripts: { docs: "custom" } }),
+        "docgen.json": "{}"
+      })
+      assert.deepStrictEqual(
+        await init(cwd, []),
+        Exit.fail(
+          Config.ConfigError({ message: "docgen.json already exists, use --force to overwrite it" })
+        )
+      )
+      assert.deepStrictEqual(await init(cwd, ["--force"]), Exit.unit)
+      assert.deepStrictEqual(readJson(NodePath.join(cwd, "docgen.json")).parseCompilerOptions, {
+        paths: { "pkg": ["./src/index.ts"], "pkg/*": ["./src/*"] }
+      })
+      assert.deepStrictEqual(readJson(NodePath.join(cwd, "package.json")).scripts, {
+        docs: "docgen"
+      })
+    })
+
+    it("should fail on unknown options", async () => {
+      assert.deepStrictEqual(
+        await init(setup({}), ["--yes"]),
+        Exit.fail(Config.ConfigError({ message: "Unknown command-line option '--yes'" }))
+      )
+    })
+  })
+})
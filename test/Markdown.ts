@@ -5,15 +5,24 @@ import {
   createClass,
   createConstant,
   createDocumentable,
+  createEffectType,
+  createEnum,
+  createEnumMember,
   createExport,
   createFunction,
   createInterface,
   createMethod,
   createModule,
   createNamespace,
+  createOverload,
+  createParameter,
   createProperty,
+  createReexport,
+  createSchemaType,
+  createTaggedError,
   createTypeAlias
 } from "../src/Domain"
+import type { Constant, Namespace } from "../src/Domain"
 import * as _ from "../src/Markdown"
 
 const testCases = {
@@ -37,7 +46,12 @@ const testCases = {
           [],
           Option.none()
         ),
-        ["hasOwnProperty(): boolean"]
+        ["hasOwnProperty(): boolean"],
+        [],
+        Option.none(),
+        [],
+        Option.none(),
+        []
       )
     ],
     [
@@ -50,7 +64,12 @@ const testCases = {
           [],
           Option.none()
         ),
-        ["static testStatic(): string;"]
+        ["static testStatic(): string;"],
+        [],
+        Option.none(),
+        [],
+        Option.none(),
+        []
       )
     ],
     [
@@ -76,7 +95,10 @@ const testCases = {
       [],
       Option.some("constants")
     ),
-    "declare const test: string"
+    "declare const test: string",
+    Option.none(),
+    Option.none(),
+    Option.none()
   ),
   export: createExport(
     createDocumentable(
@@ -98,7 +120,13 @@ const testCases = {
       ["example 1"],
       Option.none()
     ),
-    ["declare const func: (test: string) => string"]
+    ["declare const func: (test: string) => string"],
+    [],
+    Option.none(),
+    [],
+    Option.none(),
+    [],
+    []
   ),
   interface: createInterface(
     createDocumentable(
@@ -109,7 +137,45 @@ const testCases = {
       [],
       Option.none()
     ),
-    "export interface A extends Record<string, unknown> {}"
+    "export interface A extends Record<string, unknown> {}",
+    [],
+    [],
+    Option.none()
+  ),
+  enum: createEnum(
+    createDocumentable(
+      "Color",
+      Option.some("an enum"),
+      Option.some("1.0.0"),
+      false,
+      [],
+      Option.none()
+    ),
+    "export declare enum Color {\n  Red = 0,\n  Green = \"green\"\n}",
+    [
+      createEnumMember(
+        createDocumentable(
+          "Red",
+          Option.some("the red color"),
+          Option.some("1.0.0"),
+          false,
+          [],
+          Option.none()
+        ),
+        Option.some(0)
+      ),
+      createEnumMember(
+        createDocumentable(
+          "Green",
+          Option.none(),
+          Option.some("1.1.0"),
+          true,
+          [],
+          Option.none()
+        ),
+        Option.some("green")
+      )
+    ]
   ),
   typeAlias: createTypeAlias(
     createDocumentable(
@@ -175,9 +241,17 @@ describe.concurrent("Markdown", () => {
               "export type D = number"
             )
           ],
+          [],
+          [],
+          [],
+          [],
           []
         )
-      ]
+      ],
+      [],
+      [],
+      [],
+      []
     )
     assert.strictEqual(
       print(namespace),
@@ -212,73 +286,72 @@ Added in v1.0.3
     )
   })
 
-  it("fromClass", () => {
+  it("fromNamespace (deep nesting)", () => {
+    const namespace = (name: string, namespaces: ReadonlyArray<Namespace>) =>
+      createNamespace(
+        createDocumentable(name, Option.none(), Option.some("1.0.0"), false, [], Option.none()),
+        [],
+        [testCases.typeAlias],
+        namespaces,
+        [],
+        [],
+        [],
+        []
+      )
     assert.strictEqual(
-      print(testCases.class),
-      `## A (class)
+      print(namespace("N", [namespace("B", [namespace("C", [namespace("D", [])])])])),
+      `## N (namespace)
 
-a class
+Added in v1.0.0
+
+### A (type alias)
 
 **Signature**
 
 \`\`\`ts
-declare class A {
-  constructor()
-}
+export type A = number
 \`\`\`
 
-**Example**
+Added in v1.0.0
 
-\`\`\`ts
-example 1
-\`\`\`
+### B (namespace)
 
 Added in v1.0.0
 
-### staticTest (static method)
+#### A (type alias)
 
 **Signature**
 
 \`\`\`ts
-static testStatic(): string;
+export type A = number
 \`\`\`
 
 Added in v1.0.0
 
-### hasOwnProperty (function) (method)
-
-**Signature**
-
-\`\`\`ts
-hasOwnProperty(): boolean
-\`\`\`
+#### C (namespace)
 
 Added in v1.0.0
 
-### foo (property)
+#### N.B.C.A (type alias)
 
 **Signature**
 
 \`\`\`ts
-foo: string
+export type A = number
 \`\`\`
 
 Added in v1.0.0
-`
-    )
-  })
 
-  it("printConstant", () => {
-    assert.strictEqual(
-      print(testCases.constant),
-      `## test
+#### N.B.C.D (namespace)
 
-the test
+Added in v1.0.0
+
+#### N.B.C.D.A (type alias)
 
 **Signature**
 
 \`\`\`ts
-declare const test: string
+export type A = number
 \`\`\`
 
 Added in v1.0.0
@@ -286,33 +359,33 @@ Added in v1.0.0
     )
   })
 
-  it("printExport", () => {
+  it("fromNamespace (functions, constants, classes and enums)", () => {
+    const namespace = createNamespace(
+      createDocumentable("A", Option.none(), Option.some("1.0.0"), false, [], Option.none()),
+      [],
+      [],
+      [],
+      [testCases.class],
+      [testCases.function],
+      [testCases.constant],
+      []
+    )
     assert.strictEqual(
-      print(testCases.export),
-      `## test
-
-**Signature**
-
-\`\`\`ts
-export declare const test: typeof test
-\`\`\`
+      print(namespace),
+      `## A (namespace)
 
 Added in v1.0.0
-`
-    )
-  })
 
-  it("printFunction", () => {
-    assert.strictEqual(
-      print(testCases.function),
-      `## ~~func~~
+### A (class)
 
-a function
+a class
 
 **Signature**
 
 \`\`\`ts
-declare const func: (test: string) => string
+declare class A {
+  constructor()
+}
 \`\`\`
 
 **Example**
@@ -322,110 +395,74 @@ example 1
 \`\`\`
 
 Added in v1.0.0
-`
-    )
-  })
 
-  it("printInterface", () => {
-    assert.strictEqual(
-      print(testCases.interface),
-      `## A (interface)
+#### staticTest (static method)
 
 **Signature**
 
 \`\`\`ts
-export interface A extends Record<string, unknown> {}
+static testStatic(): string;
 \`\`\`
 
 Added in v1.0.0
-`
-    )
-  })
 
-  it("printTypeAlias", () => {
-    assert.strictEqual(
-      print(testCases.typeAlias),
-      `## A (type alias)
+#### hasOwnProperty (function) (method)
 
 **Signature**
 
 \`\`\`ts
-export type A = number
+hasOwnProperty(): boolean
 \`\`\`
 
 Added in v1.0.0
-`
-    )
 
-    assert.strictEqual(
-      print({ ...testCases.typeAlias, since: Option.none() }),
-      `## A (type alias)
+#### foo (property)
 
 **Signature**
 
 \`\`\`ts
-export type A = number
+foo: string
 \`\`\`
-`
-    )
-  })
 
-  it("printModule", () => {
-    const documentation = createDocumentable(
-      "tests",
-      Option.none(),
-      Option.some("1.0.0"),
-      false,
-      [],
-      Option.none()
-    )
-    assert.strictEqual(
-      _.printModule(
-        createModule(
-          documentation,
-          ["src", "tests.ts"],
-          [testCases.class],
-          [testCases.interface],
-          [testCases.function],
-          [testCases.typeAlias],
-          [testCases.constant],
-          [testCases.export],
-          []
-        ),
-        1
-      ),
-      `---
-title: tests.ts
-nav_order: 1
-parent: Modules
----
+Added in v1.0.0
 
-## tests overview
+### ~~func~~
+
+a function
+
+**Signature**
+
+\`\`\`ts
+declare const func: (test: string) => string
+\`\`\`
+
+**Example**
+
+\`\`\`ts
+example 1
+\`\`\`
 
 Added in v1.0.0
 
----
+### test
 
-<h2 class="text-delta">Table of contents</h2>
+the test
 
-- [category](#category)
-  - [A (class)](#a-class)
-    - [staticTest (static method)](#statictest-static-method)
-    - [hasOwnProperty (function) (method)](#hasownproperty-function-method)
-    - [foo (property)](#foo-property)
-- [constants](#constants)
-  - [test](#test)
-- [utils](#utils)
-  - [A (interface)](#a-interface)
-  - [A (type alias)](#a-type-alias)
-  - [~~func~~](#func)
-  - [test](#test-1)
+**Signature**
 
----
+\`\`\`ts
+declare const test: string
+\`\`\`
 
-# category
+Added in v1.0.0
+`
+    )
+  })
 
-## A (class)
+  it("fromClass", () => {
+    assert.strictEqual(
+      print(testCases.class),
+      `## A (class)
 
 a class
 
@@ -474,10 +511,14 @@ foo: string
 \`\`\`
 
 Added in v1.0.0
+`
+    )
+  })
 
-# constants
-
-## test
+  it("printConstant", () => {
+    assert.strictEqual(
+      print(testCases.constant),
+      `## test
 
 the test
 
@@ -488,32 +529,685 @@ declare const test: string
 \`\`\`
 
 Added in v1.0.0
+`
+    )
+  })
 
-# utils
-
-## A (interface)
+  it("printConstant (schema)", () => {
+    const schema = (jsonSchema: Option.Option<string>) =>
+      createConstant(
+        createDocumentable("Person", Option.none(), Option.some("1.0.0"), false, [], Option.none()),
+        "export declare const Person: Schema<{ readonly age: string }, { readonly age: number }>",
+        Option.none(),
+        Option.none(),
+        Option.some(
+          createSchemaType("{ readonly age: string }", "{ readonly age: number }", jsonSchema)
+        )
+      )
+    const types = `## Person
 
-**Signature**
+**From**
 
 \`\`\`ts
-export interface A extends Record<string, unknown> {}
+{ readonly age: string }
 \`\`\`
 
-Added in v1.0.0
-
-## A (type alias)
-
-**Signature**
+**To**
 
 \`\`\`ts
-export type A = number
+{ readonly age: number }
 \`\`\`
-
+`
+    assert.strictEqual(
+      print(schema(Option.none())),
+      `${types}
 Added in v1.0.0
+`
+    )
+    assert.strictEqual(
+      print(schema(Option.some(`{\n  "type": "object"\n}`))),
+      `${types}
+<details>
+<summary>JSON Schema</summary>
+
+\`\`\`json
+{
+  "type": "object"
+}
+\`\`\`
 
-## ~~func~~
+</details>
 
-a function
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printEnum", () => {
+    assert.strictEqual(
+      print(testCases.enum),
+      `## Color (enum)
+
+an enum
+
+**Signature**
+
+\`\`\`ts
+export declare enum Color {
+  Red = 0,
+  Green = 'green',
+}
+\`\`\`
+
+Added in v1.0.0
+
+### Red (member)
+
+the red color
+
+**Signature**
+
+\`\`\`ts
+Red = 0
+\`\`\`
+
+Added in v1.0.0
+
+### ~~Green~~ (member)
+
+**Signature**
+
+\`\`\`ts
+Green = 'green'
+\`\`\`
+
+Added in v1.1.0
+`
+    )
+  })
+
+  it("printExport", () => {
+    assert.strictEqual(
+      print(testCases.export),
+      `## test
+
+**Signature**
+
+\`\`\`ts
+export declare const test: typeof test
+\`\`\`
+
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printFunction", () => {
+    assert.strictEqual(
+      print(testCases.function),
+      `## ~~func~~
+
+a function
+
+**Signature**
+
+\`\`\`ts
+declare const func: (test: string) => string
+\`\`\`
+
+**Example**
+
+\`\`\`ts
+example 1
+\`\`\`
+
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printFunction (parameters, returns and throws)", () => {
+    assert.strictEqual(
+      print(
+        createFunction(
+          createDocumentable("sum", Option.none(), Option.some("1.0.0"), false, [], Option.none()),
+          ["declare const sum: (a: number, b: number) => number"],
+          [
+            createParameter("a", Option.some("the first | operand")),
+            createParameter("b", Option.none())
+          ],
+          Option.some("the sum"),
+          ["RangeError: if the sum overflows"],
+          Option.none(),
+          [],
+          []
+        )
+      ),
+      `## sum
+
+**Signature**
+
+\`\`\`ts
+declare const sum: (a: number, b: number) => number
+\`\`\`
+
+**Parameters**
+
+| Name | Description          |
+| ---- | -------------------- |
+| \`a\`  | the first \\| operand |
+| \`b\`  |                      |
+
+**Returns**
+
+the sum
+
+**Throws**
+
+- RangeError: if the sum overflows
+
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printFunction (call signatures)", () => {
+    assert.strictEqual(
+      print(
+        createFunction(
+          createDocumentable("f", Option.none(), Option.some("1.0.0"), false, [], Option.none()),
+          [
+            "export declare const f: (a: string) => string",
+            "export declare const f: (a: number) => number"
+          ],
+          [],
+          Option.none(),
+          [],
+          Option.none(),
+          [],
+          []
+        )
+      ),
+      `## f
+
+**Signature**
+
+\`\`\`ts
+export declare const f: (a: string) => string
+\`\`\`
+
+\`\`\`ts
+export declare const f: (a: number) => number
+\`\`\`
+
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printFunction (dual)", () => {
+    assert.strictEqual(
+      print(
+        createFunction(
+          createDocumentable("map", Option.none(), Option.some("1.0.0"), false, [], Option.none()),
+          [
+            "export declare const map: <A, B>(f: (a: A) => B) => (self: Array<A>) => Array<B>",
+            "export declare const map: <A, B>(self: Array<A>, f: (a: A) => B) => Array<B>"
+          ],
+          [],
+          Option.none(),
+          [],
+          Option.none(),
+          [],
+          ["data-last", "data-first"]
+        )
+      ),
+      `## map
+
+**Signature (data-last)**
+
+\`\`\`ts
+export declare const map: <A, B>(f: (a: A) => B) => (self: Array<A>) => Array<B>
+\`\`\`
+
+**Signature (data-first)**
+
+\`\`\`ts
+export declare const map: <A, B>(self: Array<A>, f: (a: A) => B) => Array<B>
+\`\`\`
+
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printFunction (Effect type breakdown)", () => {
+    assert.strictEqual(
+      print(
+        createFunction(
+          createDocumentable(
+            "getUser",
+            Option.none(),
+            Option.some("1.0.0"),
+            false,
+            [],
+            Option.none()
+          ),
+          ["export declare const getUser: (id: string) => Effect<Database, NotFound | Timeout, User>"],
+          [],
+          Option.none(),
+          [],
+          Option.some(
+            createEffectType(
+              "Effect",
+              ["Database"],
+              ["NotFound", "Timeout"],
+              ["Option<User>"],
+              ["Database", "NotFound", "Timeout", "Option<User>"],
+              []
+            )
+          ),
+          [],
+          []
+        )
+      ),
+      `## getUser
+
+**Signature**
+
+\`\`\`ts
+export declare const getUser: (id: string) => Effect<Database, NotFound | Timeout, User>
+\`\`\`
+
+| Requirements                   | Errors                                                         | Success                          |
+| ------------------------------ | -------------------------------------------------------------- | -------------------------------- |
+| {@link Database \\| \`Database\`} | {@link NotFound \\| \`NotFound\`} \\| {@link Timeout \\| \`Timeout\`} | {@link Option \\| \`Option<User>\`} |
+
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printFunction (Effect type breakdown without references)", () => {
+    assert.strictEqual(
+      print(
+        createFunction(
+          createDocumentable(
+            "succeed",
+            Option.none(),
+            Option.some("1.0.0"),
+            false,
+            [],
+            Option.none()
+          ),
+          ["export declare const succeed: <A>(a: A) => Effect<never, never, A>"],
+          [],
+          Option.none(),
+          [],
+          Option.some(createEffectType("Effect", ["never"], ["never"], ["A"], [], [])),
+          [],
+          []
+        )
+      ),
+      `## succeed
+
+**Signature**
+
+\`\`\`ts
+export declare const succeed: <A>(a: A) => Effect<never, never, A>
+\`\`\`
+
+| Requirements | Errors  | Success |
+| ------------ | ------- | ------- |
+| \`never\`      | \`never\` | \`A\`     |
+
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printFunction (overloads)", () => {
+    const documentable = (
+      description: Option.Option<string>,
+      since: string,
+      deprecated: boolean,
+      examples: ReadonlyArray<string>
+    ) =>
+      createDocumentable(
+        "map",
+        description,
+        Option.some(since),
+        deprecated,
+        examples,
+        Option.none()
+      )
+    assert.strictEqual(
+      print(
+        createFunction(
+          documentable(Option.none(), "1.0.0", false, []),
+          [
+            "declare function map<A, B>(f: (a: A) => B): (self: A) => B",
+            "declare function map<A, B>(self: A, f: (a: A) => B): B"
+          ],
+          [],
+          Option.none(),
+          [],
+          Option.none(),
+          [
+            createOverload(
+              documentable(Option.some("data-last"), "1.0.0", false, ["example 1"]),
+              "declare function map<A, B>(f: (a: A) => B): (self: A) => B",
+              [createParameter("f", Option.some("the function"))],
+              Option.none(),
+              [],
+              Option.none()
+            ),
+            createOverload(
+              documentable(Option.some("data-first"), "1.1.0", true, []),
+              "declare function map<A, B>(self: A, f: (a: A) => B): B",
+              [],
+              Option.some("the mapped value"),
+              [],
+              Option.none()
+            )
+          ],
+          []
+        )
+      ),
+      `## map
+
+data-last
+
+**Signature**
+
+\`\`\`ts
+declare function map<A, B>(f: (a: A) => B): (self: A) => B
+\`\`\`
+
+**Parameters**
+
+| Name | Description  |
+| ---- | ------------ |
+| \`f\`  | the function |
+
+**Example**
+
+\`\`\`ts
+example 1
+\`\`\`
+
+**Deprecated**
+
+data-first
+
+**Signature**
+
+\`\`\`ts
+declare function map<A, B>(self: A, f: (a: A) => B): B
+\`\`\`
+
+**Returns**
+
+the mapped value
+
+Added in v1.1.0
+
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printInterface", () => {
+    assert.strictEqual(
+      print(testCases.interface),
+      `## A (interface)
+
+**Signature**
+
+\`\`\`ts
+export interface A extends Record<string, unknown> {}
+\`\`\`
+
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printInterface (members)", () => {
+    const documentable = (name: string, description: Option.Option<string>) =>
+      createDocumentable(name, description, Option.some("1.0.0"), false, [], Option.none())
+    assert.strictEqual(
+      print(
+        createInterface(
+          documentable("A", Option.none()),
+          "export interface A {\n  readonly a: string\n  f(): void\n}",
+          [createMethod(
+            documentable("f", Option.some("the f method")),
+            ["f(): void"],
+            [],
+            Option.none(),
+            [],
+            Option.none(),
+            []
+          )],
+          [createProperty(documentable("a", Option.some("the a property")), "readonly a: string")],
+          Option.none()
+        )
+      ),
+      `## A (interface)
+
+**Signature**
+
+\`\`\`ts
+export interface A {
+  readonly a: string
+  f(): void
+}
+\`\`\`
+
+Added in v1.0.0
+
+### f (method)
+
+the f method
+
+**Signature**
+
+\`\`\`ts
+f(): void
+\`\`\`
+
+Added in v1.0.0
+
+### a (property)
+
+the a property
+
+**Signature**
+
+\`\`\`ts
+readonly a: string
+\`\`\`
+
+Added in v1.0.0
+`
+    )
+  })
+
+  it("printTypeAlias", () => {
+    assert.strictEqual(
+      print(testCases.typeAlias),
+      `## A (type alias)
+
+**Signature**
+
+\`\`\`ts
+export type A = number
+\`\`\`
+
+Added in v1.0.0
+`
+    )
+
+    assert.strictEqual(
+      print({ ...testCases.typeAlias, since: Option.none() }),
+      `## A (type alias)
+
+**Signature**
+
+\`\`\`ts
+export type A = number
+\`\`\`
+`
+    )
+  })
+
+  it("printModule", () => {
+    const documentation = createDocumentable(
+      "tests",
+      Option.none(),
+      Option.some("1.0.0"),
+      false,
+      [],
+      Option.none()
+    )
+    assert.strictEqual(
+      _.printModule(
+        createModule(
+          documentation,
+          ["src", "tests.ts"],
+          [testCases.class],
+          [testCases.interface],
+          [testCases.function],
+          [testCases.typeAlias],
+          [testCases.constant],
+          [testCases.export],
+          [],
+          [],
+          []
+        ),
+        1
+      ),
+      `---
+title: tests.ts
+nav_order: 1
+parent: Modules
+---
+
+## tests overview
+
+Added in v1.0.0
+
+---
+
+<h2 class="text-delta">Table of contents</h2>
+
+- [category](#category)
+  - [A (class)](#a-class)
+    - [staticTest (static method)](#statictest-static-method)
+    - [hasOwnProperty (function) (method)](#hasownproperty-function-method)
+    - [foo (property)](#foo-property)
+- [constants](#constants)
+  - [test](#test)
+- [utils](#utils)
+  - [A (interface)](#a-interface)
+  - [A (type alias)](#a-type-alias)
+  - [~~func~~](#func)
+  - [test](#test-1)
+
+---
+
+# category
+
+## A (class)
+
+a class
+
+**Signature**
+
+\`\`\`ts
+declare class A {
+  constructor()
+}
+\`\`\`
+
+**Example**
+
+\`\`\`ts
+example 1
+\`\`\`
+
+Added in v1.0.0
+
+### staticTest (static method)
+
+**Signature**
+
+\`\`\`ts
+static testStatic(): string;
+\`\`\`
+
+Added in v1.0.0
+
+### hasOwnProperty (function) (method)
+
+**Signature**
+
+\`\`\`ts
+hasOwnProperty(): boolean
+\`\`\`
+
+Added in v1.0.0
+
+### foo (property)
+
+**Signature**
+
+\`\`\`ts
+foo: string
+\`\`\`
+
+Added in v1.0.0
+
+# constants
+
+## test
+
+the test
+
+**Signature**
+
+\`\`\`ts
+declare const test: string
+\`\`\`
+
+Added in v1.0.0
+
+# utils
+
+## A (interface)
+
+**Signature**
+
+\`\`\`ts
+export interface A extends Record<string, unknown> {}
+\`\`\`
+
+Added in v1.0.0
+
+## A (type alias)
+
+**Signature**
+
+\`\`\`ts
+export type A = number
+\`\`\`
+
+Added in v1.0.0
+
+## ~~func~~
+
+a function
 
 **Signature**
 
@@ -550,6 +1244,8 @@ Added in v1.0.0
       [],
       [],
       [],
+      [],
+      [],
       []
     )
 
@@ -572,5 +1268,475 @@ Added in v1.0.0
 ---
 `
     )
+
+    assert.strictEqual(
+      _.printModule(empty, 2, "@scope/package"),
+      `---
+title: tests.ts
+nav_order: 2
+parent: '@scope/package'
+---
+
+## tests overview
+
+Added in v1.0.0
+
+---
+
+<h2 class="text-delta">Table of contents</h2>
+
+---
+`
+    )
+  })
+
+  it("printModule (re-exports)", () => {
+    const documentable = (name: string, description: Option.Option<string>) =>
+      createDocumentable(name, description, Option.some("1.0.0"), false, [], Option.none())
+    const module = (
+      name: string,
+      path: ReadonlyArray<string>,
+      description: Option.Option<string>
+    ) => createModule(documentable(name, description), path, [], [], [], [], [], [], [], [], [])
+    const option = module(
+      "Option",
+      ["src", "Option.ts"],
+      Option.some("The Option data type.\n\nMore details.")
+    )
+    const either = module("Either", ["src", "data", "Either.ts"], Option.none())
+    const index = {
+      ...module("index", ["src", "index.ts"], Option.none()),
+      reexports: [
+        createReexport(
+          documentable("E", Option.some("Either, re-exported")),
+          Option.some("E"),
+          either.path
+        ),
+        createReexport(documentable("Option", Option.none()), Option.none(), option.path)
+      ]
+    }
+
+    assert.strictEqual(
+      _.printModule(index, 1, "Modules", [index, option, either]),
+      `---
+title: index.ts
+nav_order: 1
+parent: Modules
+---
+
+## index overview
+
+Added in v1.0.0
+
+---
+
+<h2 class="text-delta">Table of contents</h2>
+
+- [re-exports](#re-exports)
+
+---
+
+# re-exports
+
+- [data/Either.ts](data/Either.ts.html) as \`E\`: Either, re-exported
+- [Option.ts](Option.ts.html): The Option data type.
+`
+    )
+  })
+
+  it("printServices", () => {
+    const documentable = (name: string) =>
+      createDocumentable(name, Option.none(), Option.some("1.0.0"), false, [], Option.none())
+    const layer = (name: string, requirements: ReadonlyArray<string>, provided: string) =>
+      createConstant(
+        documentable(name),
+        `export declare const ${name}: Layer<${requirements.join(" | ")}, never, ${provided}>`,
+        Option.some(
+          createEffectType("Layer", requirements, ["never"], [provided], [
+            ...requirements,
+            provided
+          ], [])
+        ),
+        Option.none(),
+        Option.none()
+      )
+    const module = (name: string, constants: ReadonlyArray<Constant>) =>
+      createModule(
+        documentable(name),
+        ["src", `${name}.ts`],
+        [],
+        [],
+        [],
+        [],
+        constants,
+        [],
+        [],
+        [],
+        []
+      )
+    const modules = [
+      module("Database", [
+        createConstant(
+          documentable("Database"),
+          "export declare const Database: Tag<Database, Database>",
+          Option.none(),
+          Option.some("Database"),
+          Option.none()
+        ),
+        layer("DatabaseLive", ["Logger", "Config"], "Database")
+      ]),
+      module("Logger", [layer("LoggerLive", ["never"], "Logger")])
+    ]
+
+    assert.deepStrictEqual(_.printServices([], 1), Option.none())
+    assert.deepStrictEqual(
+      _.printServices(modules, 3),
+      Option.some(`---
+title: Services
+nav_order: 3
+parent: Modules
+---
+
+## Services overview
+
+The services identified by a \`Context.Tag\`, and the layers providing them.
+
+---
+
+<h2 class="text-delta">Table of contents</h2>
+
+- [Database](#database)
+- [Logger](#logger)
+
+---
+
+## Database
+
+**Tag**: [\`Database\`](Database.ts.html#database)
+
+| Layer                                           | Requires                      |
+| ----------------------------------------------- | ----------------------------- |
+| [\`DatabaseLive\`](Database.ts.html#databaselive) | [\`Logger\`](#logger), \`Config\` |
+
+## Logger
+
+| Layer                                     | Requires |
+| ----------------------------------------- | -------- |
+| [\`LoggerLive\`](Logger.ts.html#loggerlive) |          |
+`)
+    )
+  })
+
+  it("printErrors", () => {
+    const documentable = (name: string) =>
+      createDocumentable(name, Option.none(), Option.some("1.0.0"), false, [], Option.none())
+    const error = (name: string, fields: ReadonlyArray<string>) =>
+      createInterface(
+        documentable(name),
+        `export interface ${name} extends Data.Case {}`,
+        [],
+        [],
+        Option.some(createTaggedError(name, fields, `/src/FileSystem.ts#${name}`))
+      )
+    const effect = (errors: ReadonlyArray<string>) =>
+      Option.some(
+        createEffectType(
+          "Effect",
+          ["never"],
+          errors,
+          ["string"],
+          errors,
+          errors.map((error) => `/src/FileSystem.ts#${error}`)
+        )
+      )
+    const modules = [
+      createModule(
+        documentable("FileSystem"),
+        ["src", "FileSystem.ts"],
+        [],
+        [
+          error("ReadFileError", ["readonly path: string", "readonly error: Error"]),
+          error("GlobError", []),
+          createInterface(
+            documentable("FileSystem"),
+            "export interface FileSystem {}",
+            [
+              createMethod(
+                documentable("readFile"),
+                ["readFile(path: string): Effect<never, ReadFileError, string>"],
+                [],
+                Option.none(),
+                [],
+                effect(["ReadFileError"]),
+                []
+              )
+            ],
+            [],
+            Option.none()
+          )
+        ],
+        [
+          createFunction(
+            documentable("readJson"),
+            ["export declare const readJson: (path: string) => Effect<never, ReadFileError, string>"],
+            [],
+            Option.none(),
+            [],
+            effect(["ReadFileError"]),
+            [],
+            []
+          )
+        ],
+        [],
+        [],
+        [],
+        [],
+        [],
+        []
+      )
+    ]
+
+    assert.deepStrictEqual(_.printErrors([], 1), Option.none())
+    assert.deepStrictEqual(
+      _.printErrors(modules, 4, "docgen"),
+      Option.some(`---
+title: Errors
+nav_order: 4
+parent: docgen
+---
+
+## Errors overview
+
+The tagged errors, and the APIs which can fail with them.
+
+---
+
+<h2 class="text-delta">Table of contents</h2>
+
+- [GlobError](#globerror)
+- [ReadFileError](#readfileerror)
+
+---
+
+## GlobError
+
+**Interface**: [\`GlobError\`](FileSystem.ts.html#globerror-interface)
+
+**Tag**: \`"GlobError"\`
+
+No documented API fails with this error.
+
+## ReadFileError
+
+**Interface**: [\`ReadFileError\`](FileSystem.ts.html#readfileerror-interface)
+
+**Tag**: \`"ReadFileError"\`
+
+**Fields**
+
+\`\`\`ts
+readonly path: string
+readonly error: Error
+\`\`\`
+
+**Failed by**: [\`readJson\`](FileSystem.ts.html#readjson), [\`FileSystem.readFile\`](FileSystem.ts.html#readfile-method)
+`)
+    )
+  })
+
+  it("printErrors (errors of the same name declared by different modules)", () => {
+    const documentable = (name: string) =>
+      createDocumentable(name, Option.none(), Option.some("1.0.0"), false, [], Option.none())
+    const module = (name: string) =>
+      createModule(
+        documentable(name),
+        ["src", `${name}.ts`],
+        [],
+        [
+          createInterface(
+            documentable("NotFound"),
+            "export interface NotFound extends Data.Case {}",
+            [],
+            [],
+            Option.some(createTaggedError("NotFound", [], `/src/${name}.ts#NotFound`))
+          )
+        ],
+        [
+          createFunction(
+            documentable("find"),
+            ["export declare const find: (id: string) => Effect<never, NotFound, string>"],
+            [],
+            Option.none(),
+            [],
+            Option.some(
+              createEffectType("Effect", ["never"], ["NotFound"], ["string"], ["NotFound"], [
+                `/src/${name}.ts#NotFound`
+              ])
+            ),
+            [],
+            []
+          )
+        ],
+        [],
+        [],
+        [],
+        [],
+        [],
+        []
+      )
+
+    const printed = _.printErrors([module("Users"), module("Files")], 4)
+    assert.deepStrictEqual(
+      Option.map(printed, (content) => content.match(/\*\*Failed by\*\*: .*/g)),
+      Option.some([
+        "**Failed by**: [`find`](Users.ts.html#find)",
+        "**Failed by**: [`find`](Files.ts.html#find)"
+      ])
+    )
+  })
+
+  describe.concurrent("links", () => {
+    const documentable = (name: string, description: Option.Option<string>) =>
+      createDocumentable(name, description, Option.some("1.0.0"), false, [], Option.none())
+    const option = createModule(
+      documentable("Option", Option.none()),
+      ["src", "Option.ts"],
+      [
+        createClass(
+          documentable("Box", Option.none()),
+          "export declare class Box",
+          [],
+          [],
+          [createProperty(documentable("value", Option.none()), "readonly value: number")]
+        )
+      ],
+      [],
+      [
+        createFunction(
+          documentable("map", Option.some("Maps a value, unlike {@link none | the empty value}.")),
+          ["export declare const map: (n: number) => number"],
+          [createParameter("n", Option.some("see {@link Box.value}"))],
+          Option.none(),
+          [],
+          Option.none(),
+          [],
+          []
+        )
+      ],
+      [],
+      [createConstant(
+        documentable("none", Option.none()),
+        "export declare const none: 0",
+        Option.none(),
+        Option.none(),
+        Option.none()
+      )],
+      [],
+      [],
+      [],
+      []
+    )
+    const index = createModule(
+      documentable(
+        "index",
+        Option.some(
+          "See {@link Option.map}, {@link Option} and {@link https://effect.website the website}.\n\n```ts\n{@link Missing}\n```"
+        )
+      ),
+      ["src", "index.ts"],
+      [],
+      [],
+      [],
+      [],
+      [],
+      [],
+      [],
+      [],
+      []
+    )
+
+    it("printModule", () => {
+      assert.strictEqual(
+        _.printModule(index, 1, "Modules", [index, option]),
+        `---
+title: index.ts
+nav_order: 1
+parent: Modules
+---
+
+## index overview
+
+See [Option.map](Option.ts.html#map), [Option](Option.ts.html) and [the website](https://effect.website).
+
+\`\`\`ts
+{@link Missing}
+\`\`\`
+
+Added in v1.0.0
+
+---
+
+<h2 class="text-delta">Table of contents</h2>
+
+---
+`
+      )
+
+      const printed = _.printModule(option, 1, "Modules", [index, option])
+      assert.ok(printed.includes("Maps a value, unlike [the empty value](#none)."))
+      assert.ok(printed.includes("| `n`  | see [Box.value](#value-property) |"))
+    })
+
+    it("printModule (Effect type breakdown)", () => {
+      const getBox = createFunction(
+        documentable("getBox", Option.none()),
+        ["export declare const getBox: Effect<Box, Error | Timeout, number>"],
+        [],
+        Option.none(),
+        [],
+        Option.some(
+          createEffectType("Effect", ["Box"], ["Error", "Timeout"], ["number"], [
+            "Box",
+            "Error",
+            "Timeout"
+          ], [])
+        ),
+        [],
+        []
+      )
+      const printed = _.printModule(
+        { ...option, functions: [getBox] },
+        1,
+        "Modules",
+        [index, option]
+      )
+      assert.ok(
+        printed.includes(
+          "| [`Box`](#box-class) | `Error` \\| `Timeout` | `number` |"
+        )
+      )
+    })
+
+    it("getUnresolvedLinks", () => {
+      assert.deepStrictEqual(_.getUnresolvedLinks([index, option]), [])
+
+      const map = createFunction(
+        documentable("map", Option.none()),
+        ["export declare const map: (n: number) => number"],
+        [],
+        Option.some("see {@link Box.get}"),
+        ["{@link Error}"],
+        Option.none(),
+        [],
+        []
+      )
+      assert.deepStrictEqual(
+        _.getUnresolvedLinks([index, { ...option, functions: [map] }]),
+        [
+          { path: ["src", "Option.ts"], name: "map", target: "Box.get" },
+          { path: ["src", "Option.ts"], name: "map", target: "Error" }
+        ]
+      )
+    })
   })
 })
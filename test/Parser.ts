@@ -1,11 +1,15 @@
 import * as assert from "assert"
 import chalk from "chalk"
 import { Effect, Exit, Option, String } from "effect"
+import * as NodeOS from "node:os"
+import * as NodePath from "node:path"
 import * as ast from "ts-morph"
 import * as Config from "../src/Config"
 import * as Domain from "../src/Domain"
 import * as FileSystem from "../src/FileSystem"
 import * as Parser from "../src/Parser"
+import * as Process from "../src/Process"
+import { makeProcess, setup } from "./utils"
 
 let testCounter = 0
 
@@ -14,6 +18,39 @@ const project = new ast.Project({
   useInMemoryFileSystem: true
 })
 
+// the types of the `effect` package which are broken down in the documentation
+project.getFileSystem().writeFileSync(
+  "/node_modules/effect/package.json",
+  JSON.stringify({ name: "effect" })
+)
+project.createSourceFile(
+  "/node_modules/effect/index.d.ts",
+  `export interface Effect<R, E, A> {
+  readonly _R: (_: never) => R
+  readonly _E: (_: never) => E
+  readonly _A: (_: never) => A
+}
+export type Stream<R, E, A> = {
+  readonly _R: (_: never) => R
+  readonly _E: (_: never) => E
+  readonly _A: (_: never) => A
+}
+export interface Layer<RIn, E, ROut> {
+  readonly _RIn: (_: never) => RIn
+  readonly _E: (_: never) => E
+  readonly _ROut: (_: never) => ROut
+}
+export interface Tag<Identifier, Service> {
+  readonly _I: (_: never) => Identifier
+  readonly _S: (_: never) => Service
+}
+export interface Case {}
+export interface Schema<From, To = From> {
+  readonly From: (_: From) => From
+  readonly To: (_: To) => To
+}`
+)
+
 const defaultConfig: Config.Config = {
   projectName: "docgen",
   projectHomepage: "https://github.com/effect-ts/docgen",
@@ -24,14 +61,24 @@ const defaultConfig: Config.Config = {
   enforceDescriptions: false,
   enforceExamples: false,
   enforceVersion: true,
+  runExamples: true,
+  logLevel: "Debug",
   exclude: [],
+  tsConfigFilePath: Option.none(),
   parseCompilerOptions: {},
-  examplesCompilerOptions: {}
+  examplesCompilerOptions: {},
+  workspace: false,
+  overrides: [],
+  useExports: false,
+  useDeclarationEmit: false,
+  emitJsonSchemas: false
 }
 
 const getParser = (sourceText: string): Parser.Source => ({
   path: ["test"],
-  sourceFile: project.createSourceFile(`test-${testCounter++}.ts`, sourceText)
+  sourceFile: project.createSourceFile(`test-${testCounter++}.ts`, sourceText),
+  declarationFile: Option.none(),
+  namespaces: []
 })
 
 const expectFailure = <E, A>(
@@ -83,6 +130,21 @@ describe.concurrent("Parser", () => {
         ])
       })
 
+      it("should collect the errors of the namespace and of every kind of member", () => {
+        expectFailure(
+          `export namespace A {
+            export interface B {}
+            export const c = 1
+          }`,
+          Parser.parseNamespaces,
+          [
+            `Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#A")} documentation`,
+            `Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#A.B")} documentation`,
+            `Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#A.c")} documentation`
+          ]
+        )
+      })
+
       const documentableA = Domain.createDocumentable(
         "A",
         Option.none(),
@@ -102,7 +164,7 @@ describe.concurrent("Parser", () => {
         `,
           Parser.parseNamespaces,
           [
-            Domain.createNamespace(documentableA, [], [], [])
+            Domain.createNamespace(documentableA, [], [], [], [], [], [], [])
           ]
         )
       })
@@ -119,7 +181,7 @@ describe.concurrent("Parser", () => {
           }
           `,
             Parser.parseNamespaces,
-            [Domain.createNamespace(documentableA, [], [], [])]
+            [Domain.createNamespace(documentableA, [], [], [], [], [], [], [])]
           )
         })
 
@@ -134,7 +196,7 @@ describe.concurrent("Parser", () => {
           }
           `,
             Parser.parseNamespaces,
-            [`Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#B")} documentation`]
+            [`Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#A.B")} documentation`]
           )
         })
 
@@ -169,9 +231,16 @@ describe.concurrent("Parser", () => {
                 documentableB,
                 `export interface B {
               readonly d: boolean
-            }`
+            }`,
+                [],
+                [],
+                Option.none()
               )],
               [],
+              [],
+              [],
+              [],
+              [],
               []
             )]
           )
@@ -190,7 +259,7 @@ describe.concurrent("Parser", () => {
           }
           `,
             Parser.parseNamespaces,
-            [Domain.createNamespace(documentableA, [], [], [])]
+            [Domain.createNamespace(documentableA, [], [], [], [], [], [], [])]
           )
         })
 
@@ -205,7 +274,7 @@ describe.concurrent("Parser", () => {
           }
           `,
             Parser.parseNamespaces,
-            [`Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#B")} documentation`]
+            [`Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#A.B")} documentation`]
           )
         })
 
@@ -232,9 +301,18 @@ describe.concurrent("Parser", () => {
           }
           `,
             Parser.parseNamespaces,
-            [Domain.createNamespace(documentableA, [], [
-              Domain.createTypeAlias(documentableB, "export type B = string")
-            ], [])]
+            [Domain.createNamespace(
+              documentableA,
+              [],
+              [
+                Domain.createTypeAlias(documentableB, "export type B = string")
+              ],
+              [],
+              [],
+              [],
+              [],
+              []
+            )]
           )
         })
       })
@@ -251,7 +329,7 @@ describe.concurrent("Parser", () => {
           }
           `,
             Parser.parseNamespaces,
-            [Domain.createNamespace(documentableA, [], [], [])]
+            [Domain.createNamespace(documentableA, [], [], [], [], [], [], [])]
           )
         })
 
@@ -266,7 +344,7 @@ describe.concurrent("Parser", () => {
           }
           `,
             Parser.parseNamespaces,
-            [`Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#B")} documentation`]
+            [`Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#A.B")} documentation`]
           )
         })
 
@@ -306,11 +384,251 @@ describe.concurrent("Parser", () => {
           }
           `,
             Parser.parseNamespaces,
-            [Domain.createNamespace(documentableA, [], [], [
-              Domain.createNamespace(documentableB, [], [
-                Domain.createTypeAlias(documentableC, "export type C = string")
-              ], [])
-            ])]
+            [Domain.createNamespace(
+              documentableA,
+              [],
+              [],
+              [
+                Domain.createNamespace(
+                  documentableB,
+                  [],
+                  [
+                    Domain.createTypeAlias(documentableC, "export type C = string")
+                  ],
+                  [],
+                  [],
+                  [],
+                  [],
+                  []
+                )
+              ],
+              [],
+              [],
+              [],
+              []
+            )]
+          )
+        })
+      })
+
+      describe.concurrent("functions, constants, classes and enums", () => {
+        const documentable = (name: string, since = "1.0.1") =>
+          Domain.createDocumentable(
+            name,
+            Option.none(),
+            Option.some(since),
+            false,
+            [],
+            Option.none()
+          )
+
+        it("should parse the members of a namespace", () => {
+          expectSuccess(
+            `
+          /**
+           * @since 1.0.0
+           */
+          export namespace A {
+            /**
+             * @since 1.0.1
+             */
+            export function f(a: string): string { return a }
+            /**
+             * @since 1.0.1
+             */
+            export const g = (a: number): number => a
+            /**
+             * @since 1.0.1
+             */
+            export const c = 1
+            const d = 2
+            /**
+             * @since 1.0.1
+             */
+            export class C {}
+            /**
+             * @since 1.0.1
+             */
+            export enum E {}
+          }
+          `,
+            Parser.parseNamespaces,
+            [Domain.createNamespace(
+              documentableA,
+              [],
+              [],
+              [],
+              [Domain.createClass(documentable("C"), "export declare class C", [], [], [])],
+              [
+                Domain.createFunction(
+                  documentable("f"),
+                  ["export declare function f(a: string): string"],
+                  [],
+                  Option.none(),
+                  [],
+                  Option.none(),
+                  [],
+                  []
+                ),
+                Domain.createFunction(
+                  documentable("g"),
+                  ["export declare const g: (a: number) => number"],
+                  [],
+                  Option.none(),
+                  [],
+                  Option.none(),
+                  [],
+                  []
+                )
+              ],
+              [Domain.createConstant(
+                documentable("c"),
+                "export declare const c: 1",
+                Option.none(),
+                Option.none(),
+                Option.none()
+              )],
+              [Domain.createEnum(documentable("E"), "export declare enum E {}", [])]
+            )]
+          )
+        })
+
+        it("should parse the members of an ambient namespace", () => {
+          expectSuccess(
+            `
+          /**
+           * @since 1.0.0
+           */
+          export declare namespace A {
+            /**
+             * @since 1.0.1
+             */
+            export function f(a: string): string
+            export function f(a: number): number
+            /**
+             * @since 1.0.1
+             */
+            export const c: number
+          }
+          `,
+            Parser.parseNamespaces,
+            [Domain.createNamespace(
+              documentableA,
+              [],
+              [],
+              [],
+              [],
+              [
+                Domain.createFunction(
+                  documentable("f"),
+                  [
+                    "export declare function f(a: string): string",
+                    "export declare function f(a: number): number"
+                  ],
+                  [],
+                  Option.none(),
+                  [],
+                  Option.none(),
+                  [],
+                  []
+                )
+              ],
+              [Domain.createConstant(
+                documentable("c"),
+                "export declare const c: number",
+                Option.none(),
+                Option.none(),
+                Option.none()
+              )],
+              []
+            )]
+          )
+        })
+
+        it("should parse the implicitly exported members of an ambient namespace", () => {
+          expectSuccess(
+            `
+          /**
+           * @since 1.0.0
+           */
+          export declare namespace A {
+            /**
+             * @since 1.0.1
+             */
+            const c: number
+            /**
+             * @since 1.0.1
+             */
+            interface I {}
+          }
+          `,
+            Parser.parseNamespaces,
+            [Domain.createNamespace(
+              documentableA,
+              [Domain.createInterface(documentable("I"), "interface I {}", [], [], Option.none())],
+              [],
+              [],
+              [],
+              [],
+              [Domain.createConstant(
+                documentable("c"),
+                "export declare const c: number",
+                Option.none(),
+                Option.none(),
+                Option.none()
+              )],
+              []
+            )]
+          )
+        })
+
+        it("should ignore the members of a namespace which are not exported", () => {
+          expectSuccess(
+            `
+          /**
+           * @since 1.0.0
+           */
+          export namespace A {
+            const c = 1
+          }
+          `,
+            Parser.parseNamespaces,
+            [Domain.createNamespace(documentableA, [], [], [], [], [], [], [])]
+          )
+        })
+
+        it("should qualify the names of the nested members in the errors", () => {
+          expectFailure(
+            `
+          /**
+           * @since 1.0.0
+           */
+          export namespace A {
+            /**
+             * @since 1.0.0
+             */
+            export namespace B {
+              export const c = 1
+            }
+          }
+          `,
+            Parser.parseNamespaces,
+            [`Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#A.B.c")} documentation`]
+          )
+        })
+
+        it("should raise an error if a member is not well documented", () => {
+          expectFailure(
+            `
+          /**
+           * @since 1.0.0
+           */
+          export namespace A {
+            export const c = 1
+          }
+          `,
+            Parser.parseNamespaces,
+            [`Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#A.c")} documentation`]
           )
         })
       })
@@ -343,7 +661,10 @@ describe.concurrent("Parser", () => {
               signature: "export interface A {}",
               since: Option.some("1.0.0"),
               examples: [],
-              category: Option.none()
+              category: Option.none(),
+              methods: [],
+              properties: [],
+              error: Option.none()
             }
           ]
         )
@@ -371,7 +692,10 @@ describe.concurrent("Parser", () => {
               deprecated: false,
               category: Option.none(),
               examples: [],
-              signature: "export interface A {}"
+              signature: "export interface A {}",
+              methods: [],
+              properties: [],
+              error: Option.none()
             },
             {
               _tag: "Interface",
@@ -381,11 +705,245 @@ describe.concurrent("Parser", () => {
               deprecated: false,
               category: Option.none(),
               examples: [],
-              signature: "export interface B {}"
+              signature: "export interface B {}",
+              methods: [],
+              properties: [],
+              error: Option.none()
             }
           ]
         )
       })
+
+      it("should document the members with a JSDoc comment", () => {
+        const documentable = (name: string, description: Option.Option<string>) =>
+          Domain.createDocumentable(
+            name,
+            description,
+            Option.some("1.0.0"),
+            false,
+            [],
+            Option.none()
+          )
+
+        expectSuccess(
+          `/**
+          * @since 1.0.0
+          */
+        export interface A {
+          /**
+           * the a property
+           *
+           * @since 1.0.0
+           */
+          readonly a: string;
+          readonly b?: number
+          /**
+           * @since 1.0.0
+           * @internal
+           */
+          readonly c: boolean
+          /**
+           * the f method
+           *
+           * @since 1.0.0
+           */
+          f(a: string): string
+          f(a: number): number
+          g(): void
+        }`,
+          Parser.parseInterfaces,
+          [
+            Domain.createInterface(
+              documentable("A", Option.none()),
+              `export interface A {
+          readonly a: string;
+          readonly b?: number
+          /**
+           * @since 1.0.0
+           * @internal
+           */
+          readonly c: boolean
+          f(a: string): string
+          f(a: number): number
+          g(): void
+        }`,
+              [
+                Domain.createMethod(
+                  documentable("f", Option.some("the f method")),
+                  [
+                    "f(a: string): string",
+                    "f(a: number): number"
+                  ],
+                  [],
+                  Option.none(),
+                  [],
+                  Option.none(),
+                  []
+                )
+              ],
+              [
+                Domain.createProperty(
+                  documentable("a", Option.some("the a property")),
+                  "readonly a: string"
+                )
+              ],
+              Option.none()
+            )
+          ]
+        )
+      })
+
+      it("should not enforce the tags of the members, which inherit the @since tag", () => {
+        expectSuccess(
+          `/**
+          * an interface
+          *
+          * @example
+          * assert.deepStrictEqual(1, 1)
+          * @since 1.0.0
+          */
+        export interface A {
+          /**
+           * @category getters
+           */
+          readonly a: string
+          /**
+           * @since 1.1.0
+           */
+          f(): void
+        }`,
+          Parser.parseInterfaces,
+          [
+            Domain.createInterface(
+              Domain.createDocumentable(
+                "A",
+                Option.some("an interface"),
+                Option.some("1.0.0"),
+                false,
+                ["assert.deepStrictEqual(1, 1)"],
+                Option.none()
+              ),
+              `export interface A {
+          readonly a: string
+          f(): void
+        }`,
+              [
+                Domain.createMethod(
+                  Domain.createDocumentable(
+                    "f",
+                    Option.none(),
+                    Option.some("1.1.0"),
+                    false,
+                    [],
+                    Option.none()
+                  ),
+                  ["f(): void"],
+                  [],
+                  Option.none(),
+                  [],
+                  Option.none(),
+                  []
+                )
+              ],
+              [
+                Domain.createProperty(
+                  Domain.createDocumentable(
+                    "a",
+                    Option.none(),
+                    Option.some("1.0.0"),
+                    false,
+                    [],
+                    Option.some("getters")
+                  ),
+                  "readonly a: string"
+                )
+              ],
+              Option.none()
+            )
+          ],
+          { enforceDescriptions: true, enforceExamples: true, enforceVersion: true }
+        )
+      })
+
+      it("should recognize the tagged errors", () => {
+        const documentable = (name: string) =>
+          Domain.createDocumentable(
+            name,
+            Option.none(),
+            Option.some("1.0.0"),
+            false,
+            [],
+            Option.none()
+          )
+        expectSuccess(
+          `import type { Case } from "effect"
+          declare namespace Local {
+            interface Case {}
+          }
+          /**
+           * @since 1.0.0
+           */
+          export interface NotFound extends Case {
+            readonly _tag: "NotFound"
+            readonly id: number
+          }
+          /**
+           * @since 1.0.0
+           */
+          export interface Timeout extends Error {
+            readonly _tag: "Timeout"
+          }
+          /**
+           * @since 1.0.0
+           */
+          export interface Some extends Local.Case {
+            readonly _tag: "Some"
+          }`,
+          Parser.parseInterfaces,
+          [
+            Domain.createInterface(
+              documentable("NotFound"),
+              `export interface NotFound extends Case {
+            readonly _tag: "NotFound"
+            readonly id: number
+          }`,
+              [],
+              [],
+              Option.some(
+                Domain.createTaggedError(
+                  "NotFound",
+                  ["readonly id: number"],
+                  expect.stringMatching(/^\/test-\d+\.ts#NotFound$/)
+                )
+              )
+            ),
+            Domain.createInterface(
+              documentable("Some"),
+              `export interface Some extends Local.Case {
+            readonly _tag: "Some"
+          }`,
+              [],
+              [],
+              Option.none()
+            ),
+            Domain.createInterface(
+              documentable("Timeout"),
+              `export interface Timeout extends Error {
+            readonly _tag: "Timeout"
+          }`,
+              [],
+              [],
+              Option.some(
+                Domain.createTaggedError(
+                  "Timeout",
+                  [],
+                  expect.stringMatching(/^\/test-\d+\.ts#Timeout$/)
+                )
+              )
+            )
+          ]
+        )
+      })
     })
 
     describe.concurrent("parseFunctions", () => {
@@ -439,169 +997,660 @@ describe.concurrent("Parser", () => {
         )
       })
 
-      it("should not return internal function declarations even with overloads", () => {
+      it("should not return internal function declarations even with overloads", () => {
+        expectSuccess(
+          `/**
+            * @internal
+            */
+            export function sum(a: number, b: number)
+            export function sum(a: number, b: number): number { return a + b }`,
+          Parser.parseFunctions,
+          []
+        )
+      })
+
+      it("should not return private const function declarations", () => {
+        expectSuccess(
+          `const sum = (a: number, b: number): number => a + b `,
+          Parser.parseFunctions,
+          []
+        )
+      })
+
+      it("should not return internal const function declarations", () => {
+        expectSuccess(
+          `/**
+            * @internal
+            */
+            export const sum = (a: number, b: number): number => a + b `,
+          Parser.parseFunctions,
+          []
+        )
+      })
+
+      it("should account for nullable polymorphic return types", () => {
+        expectSuccess(
+          `/**
+            * @since 1.0.0
+            */
+           export const toNullable = <A>(ma: A | null): A | null => ma`,
+          Parser.parseFunctions,
+          [
+            {
+              _tag: "Function",
+              deprecated: false,
+              description: Option.none(),
+              name: "toNullable",
+              signatures: [
+                "export declare const toNullable: <A>(ma: A | null) => A | null"
+              ],
+              parameters: [],
+              returns: Option.none(),
+              throws: [],
+              effect: Option.none(),
+              overloads: [],
+              callStyles: [],
+              since: Option.some("1.0.0"),
+              examples: [],
+              category: Option.none()
+            }
+          ]
+        )
+      })
+
+      it("should return a const function declaration", () => {
+        expectSuccess(
+          `/**
+            * a description...
+            * @since 1.0.0
+            * @example
+            * assert.deepStrictEqual(f(1, 2), { a: 1, b: 2 })
+            * @example
+            * assert.deepStrictEqual(f(3, 4), { a: 3, b: 4 })
+            * @deprecated
+            */
+            export const f = (a: number, b: number): { [key: string]: number } => ({ a, b })`,
+          Parser.parseFunctions,
+          [
+            {
+              _tag: "Function",
+              deprecated: true,
+              description: Option.some("a description..."),
+              name: "f",
+              signatures: [
+                "export declare const f: (a: number, b: number) => { [key: string]: number; }"
+              ],
+              parameters: [],
+              returns: Option.none(),
+              throws: [],
+              effect: Option.none(),
+              overloads: [],
+              callStyles: [],
+              since: Option.some("1.0.0"),
+              examples: [
+                "assert.deepStrictEqual(f(1, 2), { a: 1, b: 2 })",
+                "assert.deepStrictEqual(f(3, 4), { a: 3, b: 4 })"
+              ],
+              category: Option.none()
+            }
+          ]
+        )
+      })
+
+      it("should return a function declaration", () => {
+        expectSuccess(
+          `/**
+            * @since 1.0.0
+            */
+            export function f(a: number, b: number): { [key: string]: number } { return { a, b } }`,
+          Parser.parseFunctions,
+          [
+            {
+              _tag: "Function",
+              deprecated: false,
+              description: Option.none(),
+              name: "f",
+              signatures: [
+                "export declare function f(a: number, b: number): { [key: string]: number }"
+              ],
+              parameters: [],
+              returns: Option.none(),
+              throws: [],
+              effect: Option.none(),
+              overloads: [],
+              callStyles: [],
+              since: Option.some("1.0.0"),
+              examples: [],
+              category: Option.none()
+            }
+          ]
+        )
+      })
+
+      it("should return a function with comments", () => {
+        expectSuccess(
+          `/**
+            * a description...
+            * @since 1.0.0
+            * @deprecated
+            */
+            export function f(a: number, b: number): { [key: string]: number } { return { a, b } }`,
+          Parser.parseFunctions,
+          [
+            {
+              _tag: "Function",
+              deprecated: true,
+              description: Option.some("a description..."),
+              name: "f",
+              signatures: [
+                "export declare function f(a: number, b: number): { [key: string]: number }"
+              ],
+              parameters: [],
+              returns: Option.none(),
+              throws: [],
+              effect: Option.none(),
+              overloads: [],
+              callStyles: [],
+              since: Option.some("1.0.0"),
+              examples: [],
+              category: Option.none()
+            }
+          ]
+        )
+      })
+
+      it("should handle overloadings", () => {
+        expectSuccess(
+          `/**
+            * a description...
+            * @since 1.0.0
+            * @deprecated
+            */
+            export function f(a: Int, b: Int): { [key: string]: number }
+            export function f(a: number, b: number): { [key: string]: number }
+            export function f(a: any, b: any): { [key: string]: number } { return { a, b } }`,
+          Parser.parseFunctions,
+          [
+            {
+              _tag: "Function",
+              name: "f",
+              description: Option.some("a description..."),
+              since: Option.some("1.0.0"),
+              deprecated: true,
+              category: Option.none(),
+              examples: [],
+              signatures: [
+                "export declare function f(a: Int, b: Int): { [key: string]: number }",
+                "export declare function f(a: number, b: number): { [key: string]: number }"
+              ],
+              parameters: [],
+              returns: Option.none(),
+              throws: [],
+              effect: Option.none(),
+              overloads: [],
+              callStyles: []
+            }
+          ]
+        )
+      })
+      const documentable = (name: string) =>
+        Domain.createDocumentable(
+          name,
+          Option.none(),
+          Option.some("1.0.0"),
+          false,
+          [],
+          Option.none()
+        )
+
+      it("should parse the @param, @returns and @throws tags", () => {
+        expectSuccess(
+          `/**
+            * @param a - the first operand
+            * @param b the second operand
+            * @returns the sum
+            * @throws {RangeError} if the sum overflows
+            * @since 1.0.0
+            */
+            export const sum = (a: number, b: number): number => a + b`,
+          Parser.parseFunctions,
+          [
+            Domain.createFunction(
+              documentable("sum"),
+              ["export declare const sum: (a: number, b: number) => number"],
+              [
+                Domain.createParameter("a", Option.some("the first operand")),
+                Domain.createParameter("b", Option.some("the second operand"))
+              ],
+              Option.some("the sum"),
+              ["RangeError: if the sum overflows"],
+              Option.none(),
+              [],
+              []
+            )
+          ]
+        )
+      })
+
+      it("should raise an error if a @param doesn't match the signature", () => {
+        expectFailure(
+          `/**
+            * @param a - the first operand
+            * @param c - the second operand
+            * @since 1.0.0
+            */
+            export function sum(a: number, b: number): number { return a + b }`,
+          Parser.parseFunctions,
+          [`Unknown ${chalk.bold("@param")} 'c' in ${chalk.bold("test#sum")} documentation`]
+        )
+      })
+
+      it("should match nested @param names and the parameters of all the overloads", () => {
+        expectSuccess(
+          `/**
+            * @param options - the options
+            * @param options.a - an option
+            * @param b - only in the second overload
+            * @since 1.0.0
+            */
+            export function f(options: { a: string }): void
+            export function f(options: { a: string }, b: number): void
+            export function f(options: { a: string }, b?: number): void {}`,
+          Parser.parseFunctions,
+          [
+            Domain.createFunction(
+              documentable("f"),
+              [
+                "export declare function f(options: { a: string }): void",
+                "export declare function f(options: { a: string }, b: number): void"
+              ],
+              [
+                Domain.createParameter("options", Option.some("the options")),
+                Domain.createParameter("options.a", Option.some("an option")),
+                Domain.createParameter("b", Option.some("only in the second overload"))
+              ],
+              Option.none(),
+              [],
+              Option.none(),
+              [],
+              []
+            )
+          ]
+        )
+      })
+
+      it("should document the overloads separately if more than one has a JSDoc", () => {
+        expectSuccess(
+          `/**
+            * data-last
+            * @param f - the function
+            * @example
+            * pipe(1, map(String))
+            * @category mapping
+            * @since 1.0.0
+            */
+            export function map<A, B>(f: (a: A) => B): (self: A) => B
+            /**
+             * data-first
+             * @param self - the value
+             * @since 1.1.0
+             * @deprecated
+             */
+            export function map<A, B>(self: A, f: (a: A) => B): B
+            export function map(...args: Array<any>): any { return args }`,
+          Parser.parseFunctions,
+          [
+            Domain.createFunction(
+              Domain.createDocumentable(
+                "map",
+                Option.none(),
+                Option.some("1.0.0"),
+                false,
+                [],
+                Option.some("mapping")
+              ),
+              [
+                "export declare function map<A, B>(f: (a: A) => B): (self: A) => B",
+                "export declare function map<A, B>(self: A, f: (a: A) => B): B"
+              ],
+              [],
+              Option.none(),
+              [],
+              Option.none(),
+              [
+                Domain.createOverload(
+                  Domain.createDocumentable(
+                    "map",
+                    Option.some("data-last"),
+                    Option.some("1.0.0"),
+                    false,
+                    ["pipe(1, map(String))"],
+                    Option.some("mapping")
+                  ),
+                  "export declare function map<A, B>(f: (a: A) => B): (self: A) => B",
+                  [Domain.createParameter("f", Option.some("the function"))],
+                  Option.none(),
+                  [],
+                  Option.none()
+                ),
+                Domain.createOverload(
+                  Domain.createDocumentable(
+                    "map",
+                    Option.some("data-first"),
+                    Option.some("1.1.0"),
+                    true,
+                    [],
+                    Option.none()
+                  ),
+                  "export declare function map<A, B>(self: A, f: (a: A) => B): B",
+                  [Domain.createParameter("self", Option.some("the value"))],
+                  Option.none(),
+                  [],
+                  Option.none()
+                )
+              ],
+              []
+            )
+          ]
+        )
+      })
+
+      it("should not require a @since tag on the overloads after the first", () => {
         expectSuccess(
           `/**
-            * @internal
+            * data-last
+            * @since 1.0.0
             */
-            export function sum(a: number, b: number)
-            export function sum(a: number, b: number): number { return a + b }`,
+            export function map<A, B>(f: (a: A) => B): (self: A) => B
+            /**
+             * data-first
+             */
+            export function map<A, B>(self: A, f: (a: A) => B): B
+            export function map(...args: Array<any>): any { return args }`,
           Parser.parseFunctions,
-          []
+          [
+            Domain.createFunction(
+              Domain.createDocumentable(
+                "map",
+                Option.none(),
+                Option.some("1.0.0"),
+                false,
+                [],
+                Option.none()
+              ),
+              [
+                "export declare function map<A, B>(f: (a: A) => B): (self: A) => B",
+                "export declare function map<A, B>(self: A, f: (a: A) => B): B"
+              ],
+              [],
+              Option.none(),
+              [],
+              Option.none(),
+              [
+                Domain.createOverload(
+                  Domain.createDocumentable(
+                    "map",
+                    Option.some("data-last"),
+                    Option.some("1.0.0"),
+                    false,
+                    [],
+                    Option.none()
+                  ),
+                  "export declare function map<A, B>(f: (a: A) => B): (self: A) => B",
+                  [],
+                  Option.none(),
+                  [],
+                  Option.none()
+                ),
+                Domain.createOverload(
+                  Domain.createDocumentable(
+                    "map",
+                    Option.some("data-first"),
+                    Option.none(),
+                    false,
+                    [],
+                    Option.none()
+                  ),
+                  "export declare function map<A, B>(self: A, f: (a: A) => B): B",
+                  [],
+                  Option.none(),
+                  [],
+                  Option.none()
+                )
+              ],
+              []
+            )
+          ]
         )
       })
 
-      it("should not return private const function declarations", () => {
-        expectSuccess(
-          `const sum = (a: number, b: number): number => a + b `,
+      it("should check the @param names of each overload documented separately", () => {
+        expectFailure(
+          `/**
+            * @param f - the function
+            * @since 1.0.0
+            */
+            export function map<A, B>(f: (a: A) => B): (self: A) => B
+            /**
+             * @param f - the function
+             * @since 1.0.0
+             */
+            export function map<A, B>(self: A): B
+            export function map(...args: Array<any>): any { return args }`,
           Parser.parseFunctions,
-          []
+          [`Unknown ${chalk.bold("@param")} 'f' in ${chalk.bold("test#map")} documentation`]
         )
       })
 
-      it("should not return internal const function declarations", () => {
+      it("should not check the @param names of destructured parameters", () => {
         expectSuccess(
           `/**
-            * @internal
+            * @param options - the options
+            * @since 1.0.0
             */
-            export const sum = (a: number, b: number): number => a + b `,
+            export function f({ a }: { a: string }): string { return a }`,
           Parser.parseFunctions,
-          []
+          [
+            Domain.createFunction(
+              documentable("f"),
+              ["export declare function f({ a }: { a: string }): string"],
+              [Domain.createParameter("options", Option.some("the options"))],
+              Option.none(),
+              [],
+              Option.none(),
+              [],
+              []
+            )
+          ]
         )
       })
 
-      it("should account for nullable polymorphic return types", () => {
+      it("should split the call signatures of a `dual` API and label them", () => {
         expectSuccess(
-          `/**
-            * @since 1.0.0
-            */
-           export const toNullable = <A>(ma: A | null): A | null => ma`,
+          `declare const dual: <DataLast, DataFirst>(arity: number, body: DataFirst) => DataLast & DataFirst
+          /**
+           * @param f - the mapping function
+           * @since 1.0.0
+           */
+          export const map: {
+            <A, B>(f: (a: A) => B): (self: ReadonlyArray<A>) => Array<B>
+            <A, B>(self: ReadonlyArray<A>, f: (a: A) => B): Array<B>
+          } = dual(2, <A, B>(self: ReadonlyArray<A>, f: (a: A) => B): Array<B> => self.map(f))`,
           Parser.parseFunctions,
           [
-            {
-              _tag: "Function",
-              deprecated: false,
-              description: Option.none(),
-              name: "toNullable",
-              signatures: [
-                "export declare const toNullable: <A>(ma: A | null) => A | null"
+            Domain.createFunction(
+              documentable("map"),
+              [
+                "export declare const map: <A, B>(\n  f: (a: A) => B\n) => (self: ReadonlyArray<A>) => Array<B>",
+                "export declare const map: <A, B>(\n  self: ReadonlyArray<A>,\n  f: (a: A) => B\n) => Array<B>"
               ],
-              since: Option.some("1.0.0"),
-              examples: [],
-              category: Option.none()
-            }
+              [Domain.createParameter("f", Option.some("the mapping function"))],
+              Option.none(),
+              [],
+              Option.none(),
+              [],
+              ["data-last", "data-first"]
+            )
           ]
         )
       })
 
-      it("should return a const function declaration", () => {
+      it("should infer the call signatures of an unannotated `dual` API", () => {
         expectSuccess(
-          `/**
-            * a description...
-            * @since 1.0.0
-            * @example
-            * assert.deepStrictEqual(f(1, 2), { a: 1, b: 2 })
-            * @example
-            * assert.deepStrictEqual(f(3, 4), { a: 3, b: 4 })
-            * @deprecated
-            */
-            export const f = (a: number, b: number): { [key: string]: number } => ({ a, b })`,
+          `declare const F: {
+            dual: <DataLast, DataFirst>(arity: number, body: DataFirst) => DataLast & DataFirst
+          }
+          /**
+           * @since 1.0.0
+           */
+          export const add = F.dual<
+            (that: number) => (self: number) => number,
+            (self: number, that: number) => number
+          >(2, (self: number, that: number): number => self + that)`,
           Parser.parseFunctions,
           [
-            {
-              _tag: "Function",
-              deprecated: true,
-              description: Option.some("a description..."),
-              name: "f",
-              signatures: [
-                "export declare const f: (a: number, b: number) => { [key: string]: number; }"
+            Domain.createFunction(
+              documentable("add"),
+              [
+                "export declare const add: (that: number) => (self: number) => number",
+                "export declare const add: (self: number, that: number) => number"
               ],
-              since: Option.some("1.0.0"),
-              examples: [
-                "assert.deepStrictEqual(f(1, 2), { a: 1, b: 2 })",
-                "assert.deepStrictEqual(f(3, 4), { a: 3, b: 4 })"
-              ],
-              category: Option.none()
-            }
+              [],
+              Option.none(),
+              [],
+              Option.none(),
+              [],
+              ["data-last", "data-first"]
+            )
           ]
         )
       })
 
-      it("should return a function declaration", () => {
+      it("should break down the Effect type returned by a function", () => {
         expectSuccess(
-          `/**
-            * @since 1.0.0
-            */
-            export function f(a: number, b: number): { [key: string]: number } { return { a, b } }`,
+          `import type { Effect } from "effect"
+          interface Database {}
+          interface NotFound {}
+          interface Timeout {}
+          /**
+           * @since 1.0.0
+           */
+          export function getUser(id: string): Effect<Database, NotFound | Timeout, string> {
+            return null as any
+          }`,
           Parser.parseFunctions,
           [
-            {
-              _tag: "Function",
-              deprecated: false,
-              description: Option.none(),
-              name: "f",
-              signatures: [
-                "export declare function f(a: number, b: number): { [key: string]: number }"
+            Domain.createFunction(
+              documentable("getUser"),
+              [
+                "export declare function getUser(id: string): Effect<Database, NotFound | Timeout, string>"
               ],
-              since: Option.some("1.0.0"),
-              examples: [],
-              category: Option.none()
-            }
+              [],
+              Option.none(),
+              [],
+              Option.some(
+                Domain.createEffectType(
+                  "Effect",
+                  ["Database"],
+                  ["NotFound", "Timeout"],
+                  ["string"],
+                  ["Database", "NotFound", "Timeout"],
+                  [
+                    expect.stringMatching(/^\/test-\d+\.ts#NotFound$/),
+                    expect.stringMatching(/^\/test-\d+\.ts#Timeout$/)
+                  ]
+                )
+              ),
+              [],
+              []
+            )
           ]
         )
       })
 
-      it("should return a function with comments", () => {
+      it("should not break down an Effect type which is not the one of the effect package", () => {
         expectSuccess(
-          `/**
-            * a description...
-            * @since 1.0.0
-            * @deprecated
-            */
-            export function f(a: number, b: number): { [key: string]: number } { return { a, b } }`,
+          `interface Effect<R, E, A> {
+            readonly _R: (_: never) => R
+            readonly _E: (_: never) => E
+            readonly _A: (_: never) => A
+          }
+          /**
+           * @since 1.0.0
+           */
+          export function getUser(id: string): Effect<never, never, string> {
+            return null as any
+          }`,
           Parser.parseFunctions,
           [
-            {
-              _tag: "Function",
-              deprecated: true,
-              description: Option.some("a description..."),
-              name: "f",
-              signatures: [
-                "export declare function f(a: number, b: number): { [key: string]: number }"
+            Domain.createFunction(
+              documentable("getUser"),
+              ["export declare function getUser(id: string): Effect<never, never, string>"],
+              [],
+              Option.none(),
+              [],
+              Option.none(),
+              [],
+              []
+            )
+          ]
+        )
+      })
+
+      it("should break down the Stream type returned by both the call styles of a `dual` API", () => {
+        expectSuccess(
+          `import type { Stream } from "effect"
+          declare const dual: <DataLast, DataFirst>(arity: number, body: DataFirst) => DataLast & DataFirst
+          /**
+           * @since 1.0.0
+           */
+          export const take: {
+            (n: number): <R, E, A>(self: Stream<R, E, A>) => Stream<R, E, A>
+            <R, E, A>(self: Stream<R, E, A>, n: number): Stream<R, E, A>
+          } = dual(2, <R, E, A>(self: Stream<R, E, A>, n: number): Stream<R, E, A> => self)`,
+          Parser.parseFunctions,
+          [
+            Domain.createFunction(
+              documentable("take"),
+              [
+                "export declare const take: (\n  n: number\n) => <R, E, A>(self: Stream<R, E, A>) => Stream<R, E, A>",
+                "export declare const take: <R, E, A>(\n  self: Stream<R, E, A>,\n  n: number\n) => Stream<R, E, A>"
               ],
-              since: Option.some("1.0.0"),
-              examples: [],
-              category: Option.none()
-            }
+              [],
+              Option.none(),
+              [],
+              Option.some(Domain.createEffectType("Stream", ["R"], ["E"], ["A"], [], [])),
+              [],
+              ["data-last", "data-first"]
+            )
           ]
         )
       })
 
-      it("should handle overloadings", () => {
+      it("should split the call signatures of an annotated constant", () => {
         expectSuccess(
           `/**
-            * a description...
-            * @since 1.0.0
-            * @deprecated
-            */
-            export function f(a: Int, b: Int): { [key: string]: number }
-            export function f(a: number, b: number): { [key: string]: number }
-            export function f(a: any, b: any): { [key: string]: number } { return { a, b } }`,
+           * @since 1.0.0
+           */
+          export const f: {
+            (a: string): string
+            (a: number): number
+          } = (a: any) => a`,
           Parser.parseFunctions,
           [
-            {
-              _tag: "Function",
-              name: "f",
-              description: Option.some("a description..."),
-              since: Option.some("1.0.0"),
-              deprecated: true,
-              category: Option.none(),
-              examples: [],
-              signatures: [
-                "export declare function f(a: Int, b: Int): { [key: string]: number }",
-                "export declare function f(a: number, b: number): { [key: string]: number }"
-              ]
-            }
+            Domain.createFunction(
+              documentable("f"),
+              [
+                "export declare const f: (a: string) => string",
+                "export declare const f: (a: number) => number"
+              ],
+              [],
+              Option.none(),
+              [],
+              Option.none(),
+              [],
+              []
+            )
           ]
         )
       })
@@ -634,6 +1683,32 @@ describe.concurrent("Parser", () => {
     })
 
     describe.concurrent("parseConstants", () => {
+      it("should handle an ambient constant", () => {
+        expectSuccess(
+          `/**
+            * @since 1.0.0
+            */
+            export declare const s: string`,
+          Parser.parseConstants,
+          [
+            Domain.createConstant(
+              Domain.createDocumentable(
+                "s",
+                Option.none(),
+                Option.some("1.0.0"),
+                false,
+                [],
+                Option.none()
+              ),
+              "export declare const s: string",
+              Option.none(),
+              Option.none(),
+              Option.none()
+            )
+          ]
+        )
+      })
+
       it("should handle a constant value", () => {
         expectSuccess(
           `/**
@@ -652,12 +1727,30 @@ describe.concurrent("Parser", () => {
               deprecated: true,
               category: Option.none(),
               signature: "export declare const s: string",
+              effect: Option.none(),
+              service: Option.none(),
+              schema: Option.none(),
               examples: []
             }
           ]
         )
       })
 
+      it("should not return `dual` APIs", () => {
+        expectSuccess(
+          `declare const dual: <DataLast, DataFirst>(arity: number, body: DataFirst) => DataLast & DataFirst
+          /**
+           * @since 1.0.0
+           */
+          export const add: {
+            (that: number): (self: number) => number
+            (self: number, that: number): number
+          } = dual(2, (self: number, that: number): number => self + that)`,
+          Parser.parseConstants,
+          []
+        )
+      })
+
       it("should support constants with default type parameters", () => {
         expectSuccess(
           `/**
@@ -674,6 +1767,9 @@ describe.concurrent("Parser", () => {
               deprecated: false,
               category: Option.none(),
               signature: "export declare const left: <E = never, A = never>(l: E) => string",
+              effect: Option.none(),
+              service: Option.none(),
+              schema: Option.none(),
               examples: []
             }
           ]
@@ -698,12 +1794,125 @@ describe.concurrent("Parser", () => {
               deprecated: false,
               category: Option.none(),
               signature: "export declare const empty: A",
+              effect: Option.none(),
+              service: Option.none(),
+              schema: Option.none(),
               examples: []
             }
           ]
         )
       })
 
+      it("should recognize the tags and the layers", () => {
+        const documentable = (name: string) =>
+          Domain.createDocumentable(
+            name,
+            Option.none(),
+            Option.some("1.0.0"),
+            false,
+            [],
+            Option.none()
+          )
+        expectSuccess(
+          `import type { Layer, Tag } from "effect"
+          declare const Tag: <Service>() => Tag<Service, Service>
+          declare const layer: <RIn, ROut>() => Layer<RIn, never, ROut>
+          interface Database {}
+          interface Logger {}
+          /**
+           * @since 1.0.0
+           */
+          export const Database = Tag<Database>()
+          /**
+           * @since 1.0.0
+           */
+          export const DatabaseLive = layer<Logger, Database>()`,
+          Parser.parseConstants,
+          [
+            Domain.createConstant(
+              documentable("Database"),
+              "export declare const Database: Tag<Database, Database>",
+              Option.none(),
+              Option.some("Database"),
+              Option.none()
+            ),
+            Domain.createConstant(
+              documentable("DatabaseLive"),
+              "export declare const DatabaseLive: Layer<Logger, never, Database>",
+              Option.some(
+                Domain.createEffectType("Layer", ["Logger"], ["never"], ["Database"], [
+                  "Logger",
+                  "Database"
+                ], [])
+              ),
+              Option.none(),
+              Option.none()
+            )
+          ]
+        )
+      })
+
+      it("should break down the schemas", () => {
+        const documentable = (name: string) =>
+          Domain.createDocumentable(
+            name,
+            Option.none(),
+            Option.some("1.0.0"),
+            false,
+            [],
+            Option.none()
+          )
+        const sourceText = `import type { Schema } from "effect"
+          declare const schema: <From, To>() => Schema<From, To>
+          /**
+           * @since 1.0.0
+           */
+          export const Person = schema<
+            { readonly name: string; readonly age?: string; readonly tags: ReadonlyArray<"a" | "b"> },
+            { readonly name: string; readonly age?: number; readonly tags: ReadonlyArray<"a" | "b"> }
+          >()`
+        const person = (jsonSchema: Option.Option<string>) =>
+          Domain.createConstant(
+            documentable("Person"),
+            `export declare const Person: Schema<{ readonly name: string; readonly age?: string | undefined; readonly tags: ReadonlyArray<"a" | "b">; }, { readonly name: string; readonly age?: number | undefined; readonly tags: ReadonlyArray<"a" | "b">; }>`,
+            Option.none(),
+            Option.none(),
+            Option.some(Domain.createSchemaType(
+              `{
+  readonly name: string
+  readonly age?: string | undefined
+  readonly tags: ReadonlyArray<"a" | "b">
+}`,
+              `{
+  readonly name: string
+  readonly age?: number | undefined
+  readonly tags: ReadonlyArray<"a" | "b">
+}`,
+              jsonSchema
+            ))
+          )
+        expectSuccess(sourceText, Parser.parseConstants, [person(Option.none())])
+        expectSuccess(
+          sourceText,
+          Parser.parseConstants,
+          [person(Option.some(JSON.stringify(
+            {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                age: { type: "string" },
+                tags: { type: "array", items: { enum: ["a", "b"] } }
+              },
+              required: ["name", "tags"],
+              additionalProperties: false
+            },
+            null,
+            2
+          )))],
+          { emitJsonSchemas: true }
+        )
+      })
+
       it("should handle constants with typeof annotations", () => {
         expectSuccess(
           ` const task: { a: number } = {
@@ -724,6 +1933,9 @@ describe.concurrent("Parser", () => {
               description: Option.none(),
               name: "taskSeq",
               signature: "export declare const taskSeq: { a: number; }",
+              effect: Option.none(),
+              service: Option.none(),
+              schema: Option.none(),
               since: Option.some("1.0.0"),
               examples: [],
               category: Option.none()
@@ -766,6 +1978,37 @@ describe.concurrent("Parser", () => {
         expectSuccess(`/** @ignore */export class MyClass {}`, Parser.parseClasses, [])
       })
 
+      it("should keep the type parameters, heritage clauses and modifiers in the signature", () => {
+        expectSuccess(
+          `interface Tag<in out A> {}
+          class Base<A> {}
+          /**
+            * @since 1.0.0
+            */
+          export abstract class Foo<in out A extends string = "x", const B = 1>
+            extends Base<A> implements Tag<A> {
+            constructor(readonly a: A, readonly b: B) { super() }
+          }`,
+          Parser.parseClasses,
+          [
+            Domain.createClass(
+              Domain.createDocumentable(
+                "Foo",
+                Option.none(),
+                Option.some("1.0.0"),
+                false,
+                [],
+                Option.none()
+              ),
+              "export declare abstract class Foo<in out A extends string = \"x\", const B = 1> extends Base<A> implements Tag<A> { constructor(readonly a: A, readonly b: B) }",
+              [],
+              [],
+              []
+            )
+          ]
+        )
+      })
+
       it("should raise an error if `@since` is missing in a property", () => {
         expectFailure(
           `/**
@@ -951,7 +2194,12 @@ describe.concurrent("Parser", () => {
                   examples: [],
                   signatures: [
                     "g(a: number, b: number): { [key: string]: number }"
-                  ]
+                  ],
+                  parameters: [],
+                  returns: Option.none(),
+                  throws: [],
+                  effect: Option.none(),
+                  overloads: []
                 }
               ],
               staticMethods: [
@@ -962,7 +2210,12 @@ describe.concurrent("Parser", () => {
                   deprecated: true,
                   category: Option.none(),
                   examples: [],
-                  signatures: ["static f(): void"]
+                  signatures: ["static f(): void"],
+                  parameters: [],
+                  returns: Option.none(),
+                  throws: [],
+                  effect: Option.none(),
+                  overloads: []
                 }
               ],
               properties: [
@@ -1031,7 +2284,12 @@ describe.concurrent("Parser", () => {
                   signatures: [
                     "map(f: (a: number) => number): Test",
                     "map(f: (a: string) => string): Test"
-                  ]
+                  ],
+                  parameters: [],
+                  returns: Option.none(),
+                  throws: [],
+                  effect: Option.none(),
+                  overloads: []
                 }
               ],
               staticMethods: [
@@ -1045,7 +2303,12 @@ describe.concurrent("Parser", () => {
                   signatures: [
                     "static f(x: number): number",
                     "static f(x: string): string"
-                  ]
+                  ],
+                  parameters: [],
+                  returns: Option.none(),
+                  throws: [],
+                  effect: Option.none(),
+                  overloads: []
                 }
               ],
               properties: []
@@ -1092,6 +2355,191 @@ describe.concurrent("Parser", () => {
       })
     })
 
+    describe.concurrent("parseEnums", () => {
+      it("should return no `Enum`s if the file is empty", () => {
+        expectSuccess("", Parser.parseEnums, [])
+      })
+
+      it("should ignore non exported enums", () => {
+        expectSuccess(
+          `/** @since 1.0.0 */
+          enum E { A }`,
+          Parser.parseEnums,
+          []
+        )
+      })
+
+      it("should handle an enum and its members", () => {
+        expectSuccess(
+          `/**
+            * a description...
+            *
+            * @category model
+            * @since 1.0.0
+            */
+            export enum Color {
+              /**
+               * the red color
+               *
+               * @since 1.0.0
+               */
+              Red,
+              /**
+               * @since 1.1.0
+               * @deprecated
+               */
+              Green = 'green',
+              /**
+               * @since 1.0.0
+               * @ignore
+               */
+              Blue = 10
+            }`,
+          Parser.parseEnums,
+          [
+            {
+              _tag: "Enum",
+              name: "Color",
+              description: Option.some("a description..."),
+              since: Option.some("1.0.0"),
+              deprecated: false,
+              category: Option.some("model"),
+              examples: [],
+              signature: "export declare enum Color {\n  Red = 0,\n  Green = \"green\"\n}",
+              members: [
+                {
+                  name: "Red",
+                  description: Option.some("the red color"),
+                  since: Option.some("1.0.0"),
+                  deprecated: false,
+                  category: Option.none(),
+                  examples: [],
+                  value: Option.some(0)
+                },
+                {
+                  name: "Green",
+                  description: Option.none(),
+                  since: Option.some("1.1.0"),
+                  deprecated: true,
+                  category: Option.none(),
+                  examples: [],
+                  value: Option.some("green")
+                }
+              ]
+            }
+          ]
+        )
+      })
+
+      it("should handle a const enum", () => {
+        expectSuccess(
+          `/** @since 1.0.0 */
+          export const enum Flag {
+            /** @since 1.0.0 */
+            None = 0,
+            /** @since 1.0.0 */
+            A = 1 << 0,
+            /** @since 1.0.0 */
+            B = 1 << 1
+          }`,
+          Parser.parseEnums,
+          [
+            {
+              _tag: "Enum",
+              name: "Flag",
+              description: Option.none(),
+              since: Option.some("1.0.0"),
+              deprecated: false,
+              category: Option.none(),
+              examples: [],
+              signature: "export declare const enum Flag {\n  None = 0,\n  A = 1,\n  B = 2\n}",
+              members: [
+                {
+                  name: "None",
+                  description: Option.none(),
+                  since: Option.some("1.0.0"),
+                  deprecated: false,
+                  category: Option.none(),
+                  examples: [],
+                  value: Option.some(0)
+                },
+                {
+                  name: "A",
+                  description: Option.none(),
+                  since: Option.some("1.0.0"),
+                  deprecated: false,
+                  category: Option.none(),
+                  examples: [],
+                  value: Option.some(1)
+                },
+                {
+                  name: "B",
+                  description: Option.none(),
+                  since: Option.some("1.0.0"),
+                  deprecated: false,
+                  category: Option.none(),
+                  examples: [],
+                  value: Option.some(2)
+                }
+              ]
+            }
+          ]
+        )
+      })
+
+      it("should let the members inherit the @since tag of the enum, without enforcing their documentation", () => {
+        expectSuccess(
+          `/**
+           * An enum.
+           *
+           * @example
+           * import { E } from "test"
+           *
+           * @since 1.0.0
+           */
+          export enum E {
+            /** @since 1.1.0 */
+            A,
+            B
+          }`,
+          Parser.parseEnums,
+          [
+            {
+              _tag: "Enum",
+              name: "E",
+              description: Option.some("An enum."),
+              since: Option.some("1.0.0"),
+              deprecated: false,
+              category: Option.none(),
+              examples: ["import { E } from \"test\""],
+              signature: "export declare enum E {\n  A = 0,\n  B = 1\n}",
+              members: [
+                {
+                  name: "A",
+                  description: Option.none(),
+                  since: Option.some("1.1.0"),
+                  deprecated: false,
+                  category: Option.none(),
+                  examples: [],
+                  value: Option.some(0)
+                },
+                {
+                  name: "B",
+                  description: Option.none(),
+                  since: Option.some("1.0.0"),
+                  deprecated: false,
+                  category: Option.none(),
+                  examples: [],
+                  value: Option.some(1)
+                }
+              ]
+            }
+          ],
+          { enforceDescriptions: true, enforceExamples: true, enforceVersion: true }
+        )
+      })
+    })
+
     describe.concurrent("parseModuleDocumentation", () => {
       it("should return a description field and a deprecated field", () => {
         expectSuccess(
@@ -1235,7 +2683,9 @@ describe.concurrent("Parser", () => {
         const actual = Parser.parseExports.pipe(
           Effect.provideService(Parser.Source, {
             path: ["test"],
-            sourceFile
+            sourceFile,
+            declarationFile: Option.none(),
+            namespaces: []
           }),
           Effect.provideService(Config.Config, defaultConfig),
           Effect.runSyncExit
@@ -1257,6 +2707,105 @@ describe.concurrent("Parser", () => {
       })
     })
 
+    describe.concurrent("parseReexports", () => {
+      project.createSourceFile("reexports/Option.ts", "export const none = 0")
+      project.createSourceFile("reexports/Either.ts", "export const left = 0")
+
+      const documentable = (name: string, description = Option.none<string>()) =>
+        Domain.createDocumentable(
+          name,
+          description,
+          Option.some("1.0.0"),
+          false,
+          [],
+          Option.none()
+        )
+
+      it("should return no `Reexport`s if the file is empty", () => {
+        expectSuccess("", Parser.parseReexports, [])
+      })
+
+      it("should handle star and namespace re-exports", () => {
+        expectSuccess(
+          `/**
+            * @since 1.0.0
+            */
+          import * as assert from "assert"
+          /**
+           * @since 1.0.0
+           */
+          export * from "./reexports/Option"
+          /**
+           * the Either module
+           *
+           * @since 1.0.0
+           */
+          export * as E from "./reexports/Either.js"`,
+          Parser.parseReexports,
+          [
+            Domain.createReexport(
+              documentable("E", Option.some("the Either module")),
+              Option.some("E"),
+              ["reexports", "Either.ts"]
+            ),
+            Domain.createReexport(documentable("Option"), Option.none(), [
+              "reexports",
+              "Option.ts"
+            ])
+          ]
+        )
+      })
+
+      it("should not mistake the module documentation for the re-export documentation", () => {
+        expectFailure(
+          `/**
+            * @since 1.0.0
+            */
+          export * from "./reexports/Option"`,
+          Parser.parseReexports,
+          [`Missing ${chalk.bold("@since")} tag in ${chalk.bold("test#Option")} documentation`]
+        )
+      })
+
+      it("should ignore named, ignored and package re-exports", () => {
+        expectSuccess(
+          `/**
+            * @since 1.0.0
+            */
+          import * as assert from "assert"
+          /**
+           * @since 1.0.0
+           */
+          export { none } from "./reexports/Option"
+          /**
+           * @ignore
+           */
+          export * from "./reexports/Either"
+          /**
+           * @since 1.0.0
+           */
+          export * from "effect"`,
+          Parser.parseReexports,
+          []
+        )
+      })
+
+      it("should raise an error if the re-exported module can't be resolved", () => {
+        expectFailure(
+          `/**
+            * @since 1.0.0
+            */
+          import * as assert from "assert"
+          /**
+           * @since 1.0.0
+           */
+          export * from "./reexports/Missing"`,
+          Parser.parseReexports,
+          ["Unable to resolve the module ./reexports/Missing re-exported by test"]
+        )
+      })
+    })
+
     describe.concurrent("parseModule", () => {
       it("should raise an error if `@since` tag is missing", async () => {
         expectFailure(`import * as assert from 'assert'`, Parser.parseModule, [
@@ -1307,11 +2856,16 @@ export const foo = 'foo'`,
                 deprecated: false,
                 examples: [`import { foo } from 'test'\n\nconsole.log(foo)`],
                 category: Option.some("foo"),
-                signature: "export declare const foo: \"foo\""
+                signature: "export declare const foo: \"foo\"",
+                effect: Option.none(),
+                service: Option.none(),
+                schema: Option.none()
               }
             ],
             exports: [],
-            namespaces: []
+            namespaces: [],
+            enums: [],
+            reexports: []
           },
           { enforceExamples: true }
         )
@@ -1332,6 +2886,274 @@ export const foo = 'foo'`,
           Exit.fail(["Unable to locate file: non-existent.ts"])
         )
       })
+
+      it("should apply the overrides matching the file path", () => {
+        const project = new ast.Project({ useInMemoryFileSystem: true })
+        const content = String.stripMargin(
+          `|/**
+           | * @since 1.0.0
+           | */
+           |
+           |/**
+           | * @since 1.0.0
+           | */
+           |export const double = (n: number): number => n * 2`
+        )
+        const parse = (path: string) => {
+          project.createSourceFile(path, content)
+          return Parser.parseFile(project)(FileSystem.makeFile(path, content)).pipe(
+            Effect.provideService(Config.Config, {
+              ...defaultConfig,
+              overrides: [{ files: "src/data/**", enforceExamples: true }]
+            }),
+            Effect.runSyncExit,
+            Exit.unannotate
+          )
+        }
+
+        assert.deepStrictEqual(
+          parse(NodePath.join("src", "data", "a.ts")),
+          Exit.fail([
+            `Missing ${chalk.bold("@example")} tag in ${
+              chalk.bold("src/data/a.ts#double")
+            } documentation`
+          ])
+        )
+        assert.ok(Exit.isSuccess(parse(NodePath.join("src", "experimental", "a.ts"))))
+      })
+
+      it("should build the signatures from the emitted declarations if `useDeclarationEmit` is enabled", () => {
+        const project = new ast.Project({
+          compilerOptions: { strict: true, declaration: true },
+          useInMemoryFileSystem: true
+        })
+        const path = NodePath.join("src", "a.ts")
+        const content = String.stripMargin(
+          `|/**
+           | * @since 1.0.0
+           | */
+           |
+           |/**
+           | * @since 1.0.0
+           | */
+           |export const make = (n = 1) => ({ n })
+           |
+           |/**
+           | * @since 1.0.0
+           | */
+           |export const value = make(2)
+           |
+           |/**
+           | * @since 1.0.0
+           | */
+           |export function f(a: string, b = 2): string { return a.repeat(b) }
+           |
+           |declare const F: {
+           |  dual: <DataLast, DataFirst>(arity: number, body: DataFirst) => DataLast & DataFirst
+           |}
+           |
+           |/**
+           | * @since 1.0.0
+           | */
+           |export interface Box<A> {
+           |  readonly value: A
+           |}
+           |
+           |const mapLast = <A, B>(f: (a: A) => B) => (self: Box<A>): Box<B> => ({ value: f(self.value) })
+           |
+           |const mapFirst = <A, B>(self: Box<A>, f: (a: A) => B): Box<B> => ({ value: f(self.value) })
+           |
+           |/**
+           | * @since 1.0.0
+           | */
+           |export const map = F.dual<typeof mapLast, typeof mapFirst>(2, mapFirst)
+           |
+           |type Repeat = (a: string, n: number) => string
+           |
+           |/**
+           | * @since 1.0.0
+           | */
+           |export const g: {
+           |  (a: string): Repeat
+           |  (a: number): number
+           |} = (a: any) => a
+           |
+           |/**
+           | * @since 1.0.0
+           | */
+           |export class C {
+           |  /**
+           |   * @since 1.0.0
+           |   */
+           |  readonly a = 1
+           |  constructor(private readonly b: number = 1) {}
+           |  /**
+           |   * @since 1.0.0
+           |   */
+           |  get(n = 1): number { return n + this.b }
+           |}`
+        )
+        project.createSourceFile(path, content)
+        const module = Parser.parseFile(project)(FileSystem.makeFile(path, content)).pipe(
+          Effect.provideService(Config.Config, { ...defaultConfig, useDeclarationEmit: true }),
+          Effect.runSync
+        )
+
+        assert.deepStrictEqual(module.functions.map((f) => f.signatures), [
+          ["export declare function f(a: string, b?: number): string"],
+          ["export declare const make: (n?: number) => {\n    n: number;\n}"],
+          [
+            "export declare const map: <A, B>(f: (a: A) => B) => (self: Box<A>) => Box<B>",
+            "export declare const map: <A_1, B_1>(\n  self: Box<A_1>,\n  f: (a: A_1) => B_1\n) => Box<B_1>"
+          ],
+          [
+            "export declare const g: (a: string) => Repeat",
+            "export declare const g: (a: number) => number"
+          ]
+        ])
+        assert.deepStrictEqual(module.constants.map((c) => c.signature), [
+          "export declare const value: {\n    n: number;\n}"
+        ])
+        assert.deepStrictEqual(
+          module.classes.map((c) => [
+            c.signature,
+            c.methods.map((m) => m.signatures),
+            c.properties.map((p) => p.signature)
+          ]),
+          [[
+            "export declare class C { constructor(b?: number) }",
+            [["get(n?: number): number"]],
+            ["readonly a = 1"]
+          ]]
+        )
+      })
+    })
+
+    describe.concurrent("resolveOverrides", () => {
+      it("should apply the matching overrides in order", () => {
+        const config: Config.Config = {
+          ...defaultConfig,
+          overrides: [
+            { files: "src/**", enforceDescriptions: true, enforceExamples: true },
+            { files: "src/experimental/**", enforceExamples: false, enforceVersion: false }
+          ]
+        }
+        const pick = ({ enforceDescriptions, enforceExamples, enforceVersion }: Config.Config) => ({
+          enforceDescriptions,
+          enforceExamples,
+          enforceVersion
+        })
+
+        assert.deepStrictEqual(pick(Parser.resolveOverrides(config, "src/data/a.ts")), {
+          enforceDescriptions: true,
+          enforceExamples: true,
+          enforceVersion: true
+        })
+        assert.deepStrictEqual(pick(Parser.resolveOverrides(config, "src/experimental/a.ts")), {
+          enforceDescriptions: true,
+          enforceExamples: false,
+          enforceVersion: false
+        })
+        assert.deepStrictEqual(pick(Parser.resolveOverrides(config, "test/a.ts")), {
+          enforceDescriptions: false,
+          enforceExamples: false,
+          enforceVersion: true
+        })
+      })
+    })
+
+    describe.concurrent("createProject", () => {
+      const dir = setup({
+        "tsconfig.base.json": JSON.stringify({
+          compilerOptions: { strict: true, target: "ES2019" }
+        }),
+        "tsconfig.json": JSON.stringify({
+          extends: "./tsconfig.base.json",
+          compilerOptions: { lib: ["ES2021"], exactOptionalPropertyTypes: true }
+        })
+      })
+
+      const getCompilerOptions = (config: Partial<Config.Config>, cwd = dir) =>
+        Parser.createProject([]).pipe(
+          Effect.map((project) => project.getCompilerOptions()),
+          Effect.provideService(Config.Config, { ...defaultConfig, ...config }),
+          Effect.provideService(Process.Process, makeProcess(cwd)),
+          Effect.provideLayer(FileSystem.FileSystemLive),
+          Effect.runPromiseExit
+        )
+
+      it("should inherit the compiler options of the tsconfig.json extends chain", async () => {
+        const exit = await getCompilerOptions({
+          tsConfigFilePath: Option.some(NodePath.join(dir, "tsconfig.json")),
+          parseCompilerOptions: { target: "ES2021" }
+        })
+        assert.ok(Exit.isSuccess(exit))
+        expect(exit.value).toMatchObject({
+          strict: true,
+          exactOptionalPropertyTypes: true,
+          lib: ["lib.es2021.d.ts"],
+          target: ast.ts.ScriptTarget.ES2021
+        })
+      })
+
+      it("should look up the default tsconfig.json from the current working directory", async () => {
+        const exit = await getCompilerOptions({}, NodePath.join(dir, "src"))
+        assert.ok(Exit.isSuccess(exit))
+        expect(exit.value).toMatchObject({ target: ast.ts.ScriptTarget.ES2019 })
+      })
+
+      it("should resolve the tsConfigFilePath relative to the current working directory", async () => {
+        const exit = await getCompilerOptions({
+          tsConfigFilePath: Option.some("tsconfig.base.json")
+        })
+        assert.ok(Exit.isSuccess(exit))
+        expect(exit.value).toMatchObject({ target: ast.ts.ScriptTarget.ES2019 })
+      })
+
+      it("should not look up an explicit tsConfigFilePath", async () => {
+        expect(
+          Exit.unannotate(
+            await getCompilerOptions(
+              { tsConfigFilePath: Option.some("tsconfig.json") },
+              NodePath.join(dir, "src")
+            )
+          )
+        ).toEqual(
+          Exit.fail(Config.ConfigError({
+            message: `Unable to find the tsConfigFilePath 'tsconfig.json' in ${
+              NodePath.join(dir, "src")
+            }`
+          }))
+        )
+      })
+
+      it("should fall back to the parseCompilerOptions if there's no default tsconfig.json", async () => {
+        const exit = await getCompilerOptions({}, NodeOS.tmpdir())
+        assert.ok(Exit.isSuccess(exit))
+        expect(exit.value).toMatchObject({ strict: true })
+      })
+
+      it("should raise an error if the tsConfigFilePath doesn't exist", async () => {
+        expect(
+          Exit.unannotate(
+            await getCompilerOptions({ tsConfigFilePath: Option.some("tsconfig.missing.json") })
+          )
+        ).toEqual(
+          Exit.fail(Config.ConfigError({
+            message: `Unable to find the tsConfigFilePath 'tsconfig.missing.json' in ${dir}`
+          }))
+        )
+      })
+
+      it("should raise an error if the parseCompilerOptions are invalid", async () => {
+        expect(
+          Exit.unannotate(await getCompilerOptions({ parseCompilerOptions: { target: "ES1" } }))
+        ).toEqual(
+          Exit.fail([[
+            "Invalid parseCompilerOptions: Argument for '--target' option must be: 'es3', 'es5', 'es6', 'es2015', 'es2016', 'es2017', 'es2018', 'es2019', 'es2020', 'es2021', 'es2022', 'esnext'."
+          ]])
+        )
+      })
     })
   })
 
@@ -1443,6 +3265,43 @@ export const foo = 'foo'`,
       })
     })
 
+    describe.concurrent("getCallableInfo", () => {
+      it("should parse the @param, @returns and @throws tags", () => {
+        const text = String.stripMargin(
+          `|/**
+           | * @param self - the value
+           | * @param f
+           | * @return the mapped value
+           | * @throws {Error}
+           | * @exception when \`f\` throws
+           | */`
+        )
+        expectSuccess("", Parser.getCallableInfo("map", Option.some(["self", "f"]))(text), {
+          parameters: [
+            Domain.createParameter("self", Option.some("the value")),
+            Domain.createParameter("f", Option.none())
+          ],
+          returns: Option.some("the mapped value"),
+          throws: ["Error", "when `f` throws"]
+        })
+      })
+
+      it("should fail if the @param tags don't match the parameter names", () => {
+        const text = String.stripMargin(
+          `|/**
+           | * @param self - the value
+           | * @param g - the function
+           | * @param h - another function
+           | */`
+        )
+        expectFailure(
+          "",
+          Parser.getCallableInfo("map", Option.some(["self", "f"]))(text),
+          `Unknown ${chalk.bold("@param")} 'g', 'h' in ${chalk.bold("test#map")} documentation`
+        )
+      })
+    })
+
     it("parseComment", () => {
       assert.deepStrictEqual(Parser.parseComment(""), {
         description: Option.none(),
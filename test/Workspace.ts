@@ -0,0 +1,87 @@
+import * as assert from "assert"
+import { Effect, Option } from "effect"
+import * as NodePath from "node:path"
+import * as FileSystem from "../src/FileSystem"
+import * as Process from "../src/Process"
+import * as Workspace from "../src/Workspace"
+import { makeProcess, setup } from "./utils"
+
+describe.concurrent("Workspace", () => {
+  describe.concurrent("parsePnpmWorkspace", () => {
+    it("should read the packages list", () => {
+      assert.deepStrictEqual(
+        Workspace.parsePnpmWorkspace(`# workspace
+packages:
+  - "packages/*"
+  - 'tools/cli' # the command-line interface
+  - !packages/legacy
+
+catalog:
+  - effect
+`),
+        ["packages/*", "tools/cli", "!packages/legacy"]
+      )
+    })
+
+    it("should return no patterns if there is no packages list", () => {
+      assert.deepStrictEqual(Workspace.parsePnpmWorkspace("catalog:\n  - effect\n"), [])
+    })
+  })
+
+  describe.concurrent("parsePackageJsonWorkspaces", () => {
+    it("should read the workspaces field", () => {
+      assert.deepStrictEqual(
+        Workspace.parsePackageJsonWorkspaces({ workspaces: ["packages/*"] }),
+        Option.some(["packages/*"])
+      )
+      assert.deepStrictEqual(
+        Workspace.parsePackageJsonWorkspaces({ workspaces: { packages: ["packages/*"] } }),
+        Option.some(["packages/*"])
+      )
+    })
+
+    it("should return none if there is no valid workspaces field", () => {
+      assert.deepStrictEqual(Workspace.parsePackageJsonWorkspaces({}), Option.none())
+      assert.deepStrictEqual(
+        Workspace.parsePackageJsonWorkspaces({ workspaces: "packages/*" }),
+        Option.none()
+      )
+      assert.deepStrictEqual(Workspace.parsePackageJsonWorkspaces(null), Option.none())
+    })
+  })
+
+  describe.concurrent("getPackages", () => {
+    const getPackages = (cwd: string) =>
+      Effect.runPromise(
+        Workspace.getPackages.pipe(
+          Effect.provideService(Process.Process, makeProcess(cwd)),
+          Effect.provideLayer(FileSystem.FileSystemLive)
+        )
+      )
+
+    it("should discover the packages listed in pnpm-workspace.yaml", async () => {
+      const cwd = setup({
+        "pnpm-workspace.yaml": "packages:\n  - packages/*\n  - \"!packages/legacy\"\n",
+        "packages/b/package.json": `{ "name": "@scope/b" }`,
+        "packages/a/package.json": `{ "name": "@scope/a" }`,
+        "packages/legacy/package.json": `{ "name": "legacy" }`,
+        "packages/unnamed/package.json": `{}`
+      })
+      assert.deepStrictEqual(await getPackages(cwd), [
+        Workspace.createPackage("@scope/a", NodePath.join(cwd, "packages", "a")),
+        Workspace.createPackage("@scope/b", NodePath.join(cwd, "packages", "b"))
+      ])
+    })
+
+    it("should fall back to the workspaces field of package.json", async () => {
+      const cwd = setup({
+        "package.json": `{ "workspaces": ["libs/*"] }`,
+        "libs/core/package.json": `{ "name": "core" }`,
+        "libs/core/node_modules/dep/package.json": `{ "name": "dep" }`
+      })
+      assert.deepStrictEqual(await getPackages(cwd), [
+        Workspace.createPackage("core", NodePath.join(cwd, "libs", "core"))
+      ])
+    })
+  })
+})
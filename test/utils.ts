@@ -0,0 +1,39 @@
+import { Effect } from "effect"
+import * as NodeFS from "node:fs"
+import * as NodeOS from "node:os"
+import * as NodePath from "node:path"
+import * as Process from "../src/Process"
+
+const dirs: Array<string> = []
+
+// the temporary directories of a test file are deleted once its tests have run
+afterAll(() => {
+  for (const dir of dirs) {
+    NodeFS.rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+/**
+ * Creates a temporary directory containing `files`, keyed by their path
+ * relative to the directory.
+ */
+export const setup = (files: Record<string, string> = {}): string => {
+  const dir = NodeFS.mkdtempSync(NodePath.join(NodeOS.tmpdir(), "docgen-"))
+  dirs.push(dir)
+  for (const [fileName, content] of Object.entries(files)) {
+    NodeFS.mkdirSync(NodePath.dirname(NodePath.join(dir, fileName)), { recursive: true })
+    NodeFS.writeFileSync(NodePath.join(dir, fileName), content)
+  }
+  return dir
+}
+
+/**
+ * A `Process` running in `cwd` with the command-line arguments `argv`.
+ */
+export const makeProcess = (cwd: string, argv: ReadonlyArray<string> = []): Process.Process =>
+  Process.Process.of({
+    cwd: Effect.succeed(cwd),
+    platform: Effect.succeed(process.platform),
+    argv: Effect.succeed(argv),
+    chdir: () => Effect.unit
+  })
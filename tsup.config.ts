@@ -1,7 +1,8 @@
 import { defineConfig } from "tsup"
 
 export default defineConfig({
-  entry: ["src/bin.ts"],
+  entry: ["src/bin.ts", "src/index.ts"],
+  dts: { entry: "src/index.ts" },
   clean: true,
   publicDir: true,
   noExternal: [/(effect|@effect|chalk)/]
@@ -4,7 +4,7 @@ import { defineConfig } from "vite"
 export default defineConfig({
   test: {
     include: ["./test/**/*.{js,mjs,cjs,ts,mts,cts,jsx,tsx}"],
-    exclude: [],
+    exclude: ["./test/utils.ts"],
     globals: true,
     coverage: {
       provider: "v8"